@@ -0,0 +1,28 @@
+/**
+ * @format
+ */
+
+import { ApiService } from '@/service/api/ApiService';
+import { ApiExchangeRateProvider } from '@/service/exchangeRates/ApiExchangeRateProvider';
+
+jest.mock('@/service/api/ApiService', () => ({ ApiService: jest.fn() }));
+
+describe('api exchange rate provider', () => {
+  test('rates are stamped with the local fetch time, not the upstream update', async () => {
+    const now = new Date(2025, 5, 2, 9);
+    const upstream = new Date(2025, 5, 1, 0, 2);
+    jest.useFakeTimers({ now });
+    (ApiService as jest.Mock).mockResolvedValue({
+      result: 'success',
+      base_code: 'USD',
+      time_last_update_unix: upstream.getTime() / 1000,
+      rates: { USD: 1, INR: 84 },
+    });
+
+    const rates = await new ApiExchangeRateProvider().getRates('USD');
+    jest.useRealTimers();
+
+    expect(rates.fetchedAt).toEqual(now);
+    expect(rates.updatedAt).toEqual(upstream);
+  });
+});
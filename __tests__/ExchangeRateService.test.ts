@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ExchangeRateService } from '@/service/exchangeRates/ExchangeRateService';
+import { IExchangeRateProvider } from '@/service/exchangeRates/IExchangeRateProvider';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+// Live rates need the network; each test sets its own provider
+jest.mock('@/service/exchangeRates/ApiExchangeRateProvider', () => ({
+  apiExchangeRateProvider: { name: 'api', getRates: jest.fn() },
+}));
+jest.mock('@/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), log: jest.fn(), debug: jest.fn() },
+}));
+
+const liveRates: ExchangeRates = {
+  base: 'USD',
+  rates: { USD: 1, INR: 84, EUR: 0.9 },
+  fetchedAt: new Date(2025, 5, 1, 12),
+  source: 'test',
+};
+
+const provider = (getRates: IExchangeRateProvider['getRates']): IExchangeRateProvider => ({
+  name: 'test',
+  getRates,
+});
+
+const failing = provider(() => Promise.reject(new Error('offline')));
+
+const makeService = (rateProvider: IExchangeRateProvider) => {
+  const service = new ExchangeRateService();
+  service.setProvider(rateProvider);
+  return service;
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('exchange rate service', () => {
+  test('fresh rates are cached with their timestamp', async () => {
+    const service = makeService(provider(() => Promise.resolve(liveRates)));
+
+    expect(await service.refreshRates()).toEqual(liveRates);
+    expect(await service.getCachedRates()).toEqual(liveRates);
+  });
+
+  test('falls back to the cached rates when the provider fails', async () => {
+    await makeService(provider(() => Promise.resolve(liveRates))).refreshRates();
+
+    expect(await makeService(failing).refreshRates()).toEqual(liveRates);
+  });
+
+  test('falls back to the bundled table with nothing cached', async () => {
+    const rates = await makeService(failing).refreshRates();
+
+    expect(rates.source).toBe('bundled');
+    expect(rates.rates.INR).toBe(83);
+  });
+
+  test('rates older than a day are stale', () => {
+    const service = new ExchangeRateService();
+
+    expect(service.isStale(liveRates, new Date(2025, 5, 2, 11))).toBe(false);
+    expect(service.isStale(liveRates, new Date(2025, 5, 2, 13))).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @format
+ */
+
+import {
+  NotificationScheduler,
+  USAGE_CHECK_IN_ACTION,
+} from '@/service/business/NotificationScheduler';
+import { handleNotificationAction } from '@/hooks/useNotificationActions';
+import { useSubscriptionStore } from '@/store';
+import { today } from '@/utils/calendarDate';
+import { inr, makeSubscription } from './fixtures/subscription';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock'),
+);
+jest.mock('@/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), log: jest.fn(), debug: jest.fn() },
+}));
+
+const scheduledTypes = () => NotificationScheduler.getScheduled().map(notification => notification.type);
+
+afterEach(async () => {
+  await NotificationScheduler.cancelAll();
+  jest.useRealTimers();
+});
+
+describe('trial conversion alert', () => {
+  // Trial ends on Jan 19th, which is also the billing day
+  const trial = makeSubscription({
+    amount: inr(100),
+    billingDate: 19,
+    startDate: '2024-01-05',
+    trialDays: 14,
+    reminderDaysBefore: 3,
+  });
+
+  test('replaces the billing reminder for the first charge', async () => {
+    jest.useFakeTimers({ now: new Date(2024, 0, 10, 9) });
+
+    await NotificationScheduler.scheduleForSubscription(trial);
+
+    expect(scheduledTypes()).toEqual(['trial_conversion']);
+    expect(NotificationScheduler.getScheduled()[0].scheduledDate).toEqual(new Date(2024, 0, 16));
+  });
+
+  test('fires right away when the trial ends inside the reminder window', async () => {
+    const now = new Date(2024, 0, 18, 9);
+    jest.useFakeTimers({ now });
+
+    await NotificationScheduler.scheduleForSubscription(trial);
+
+    const alert = NotificationScheduler.getScheduled().find(n => n.type === 'trial_conversion');
+    expect(alert?.scheduledDate).toEqual(now);
+  });
+
+  test('is not sent once the trial has converted', async () => {
+    jest.useFakeTimers({ now: new Date(2024, 0, 25, 9) });
+
+    await NotificationScheduler.scheduleForSubscription(trial);
+
+    expect(scheduledTypes()).toContain('billing_reminder');
+    expect(scheduledTypes()).not.toContain('trial_conversion');
+  });
+});
+
+describe('cancellation alert', () => {
+  test('describes the plan length in its billing cycle', async () => {
+    jest.useFakeTimers({ now: new Date(2024, 0, 10, 9) });
+
+    await NotificationScheduler.scheduleForSubscription(
+      makeSubscription({
+        billingDate: 15,
+        startDate: '2024-01-15',
+        recurrence: { interval: 1, unit: 'week' },
+        isOneTime: true,
+        cycleLimit: 6,
+      }),
+    );
+
+    const alert = NotificationScheduler.getScheduled().find(n => n.type === 'cancellation_alert');
+    expect(alert?.body).toContain('(6 weeks)');
+  });
+});
+
+describe('pauses', () => {
+  const paused = makeSubscription({
+    billingDate: 10,
+    startDate: '2024-01-10',
+    reminderDaysBefore: 3,
+    usageCheckIns: ['2024-02-01'],
+    pauses: [{ startDate: '2024-02-05', resumeDate: '2024-03-01' }],
+  });
+
+  test('only the auto-resume reminder is sent while paused', async () => {
+    jest.useFakeTimers({ now: new Date(2024, 1, 10, 9) });
+
+    await NotificationScheduler.scheduleForSubscription(paused);
+
+    expect(scheduledTypes()).toEqual(['resume_reminder']);
+    expect(NotificationScheduler.getScheduled()[0].scheduledDate).toEqual(new Date(2024, 1, 27));
+  });
+
+  test('a pause ending inside the reminder window is reminded right away', async () => {
+    const now = new Date(2024, 1, 28, 9);
+    jest.useFakeTimers({ now });
+
+    await NotificationScheduler.scheduleForSubscription(paused);
+
+    expect(NotificationScheduler.getScheduled()[0].scheduledDate).toEqual(now);
+  });
+
+  test('reminders falling inside a pause are held until it ends', async () => {
+    jest.useFakeTimers({ now: new Date(2024, 1, 1, 9) });
+
+    await NotificationScheduler.scheduleForSubscription({
+      ...paused,
+      reminderDaysBefore: 10,
+      pauses: [{ startDate: '2024-02-05', resumeDate: '2024-02-20' }],
+    });
+
+    // Feb 10th shifts to Feb 25th; its reminder (Feb 15th) falls in the pause
+    const reminder = NotificationScheduler.getScheduled().find(n => n.type === 'billing_reminder');
+    expect(reminder?.scheduledDate).toEqual(new Date(2024, 1, 20));
+  });
+});
+
+describe('budget alert', () => {
+  test('reads the same for an added or an edited subscription', async () => {
+    await NotificationScheduler.notifyBudgetExceeded(makeSubscription({ serviceName: 'Netflix' }), [
+      { limit: inr(500), used: inr(600), remaining: inr(-100), isOverBudget: true },
+    ]);
+
+    const [alert] = NotificationScheduler.getScheduled();
+    expect(alert.title).toBe('Monthly Budget Exceeded');
+    expect(alert.body).toMatch(/^With Netflix you're at .*600.* a month, .*100.* over your .*500.* budget\.$/);
+  });
+});
+
+describe('usage check', () => {
+  const waitForCheckIn = async (id: string) => {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const subscription = useSubscriptionStore.getState().subscriptions.find(sub => sub.id === id);
+      if (subscription?.usageCheckIns?.length) return subscription.usageCheckIns;
+      await new Promise<void>(resolve => setImmediate(resolve));
+    }
+    return [];
+  };
+
+  test('"I used it" on the prompt records a check-in', async () => {
+    await useSubscriptionStore.getState().addSubscription(makeSubscription());
+    const [added] = useSubscriptionStore.getState().subscriptions;
+
+    const prompt = NotificationScheduler.getScheduled().find(n => n.type === 'usage_check');
+    expect(prompt?.id).toBe(`usage_${added.id}`);
+
+    NotificationScheduler.setActionHandler(handleNotificationAction);
+    NotificationScheduler.handleAction(prompt!.id, USAGE_CHECK_IN_ACTION);
+
+    expect(await waitForCheckIn(added.id)).toEqual([today()]);
+  });
+
+  test('other actions and unknown notifications are ignored', () => {
+    const handler = jest.fn();
+    NotificationScheduler.setActionHandler(handler);
+
+    NotificationScheduler.handleAction('usage_missing', USAGE_CHECK_IN_ACTION);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import { OverlapDetector } from '@/service/business/OverlapDetector';
+import { inr, makeSubscription } from './fixtures/subscription';
+
+const hdfc = { id: 'card_1', name: 'HDFC Card' };
+
+describe('duplicates', () => {
+  test('catalog aliases and ids count as the same service', () => {
+    const insights = OverlapDetector.detect([
+      makeSubscription({ id: 'a', serviceName: 'Amazon Prime' }),
+      makeSubscription({ id: 'b', serviceName: 'Prime Video' }),
+      makeSubscription({ id: 'c', serviceName: 'My music', catalogId: 'spotify' }),
+      makeSubscription({ id: 'd', serviceName: 'Spotify Premium' }),
+    ]);
+
+    expect(insights.filter(insight => insight.kind === 'duplicate').map(insight => insight.subscriptionIds)).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  test('names outside the catalog match once plan words and punctuation are dropped', () => {
+    const [insight] = OverlapDetector.detect([
+      makeSubscription({ id: 'a', serviceName: 'Corner Gym', paymentMethod: hdfc }),
+      makeSubscription({ id: 'b', serviceName: 'corner-gym membership', paymentMethod: hdfc }),
+    ]);
+
+    expect(insight.subscriptionIds).toEqual(['a', 'b']);
+    expect(insight.message).toContain('HDFC Card');
+  });
+
+  test('the same charge to the same payment method is flagged under different names', () => {
+    const entries = [
+      makeSubscription({ id: 'a', serviceName: 'StreamBox', category: 'streaming', amount: inr(649) }),
+      makeSubscription({ id: 'b', serviceName: 'Movie Club', category: 'streaming', amount: inr(649) }),
+    ];
+
+    expect(OverlapDetector.detect(entries)).toEqual([]);
+
+    const [insight] = OverlapDetector.detect(entries.map(sub => ({ ...sub, paymentMethod: hdfc })));
+    expect(insight.kind).toBe('duplicate');
+    expect(insight.subscriptionIds).toEqual(['a', 'b']);
+    expect(insight.message).toMatch(/^Each charges .*649.* monthly to HDFC Card\.$/);
+  });
+
+  test('a different price or cycle on the same card is not a duplicate', () => {
+    expect(
+      OverlapDetector.detect([
+        makeSubscription({ id: 'a', serviceName: 'Gym', amount: inr(649), paymentMethod: hdfc }),
+        makeSubscription({ id: 'b', serviceName: 'Pool', amount: inr(500), paymentMethod: hdfc }),
+        makeSubscription({
+          id: 'c',
+          serviceName: 'Yoga',
+          amount: inr(649),
+          paymentMethod: hdfc,
+          recurrence: { interval: 1, unit: 'year' },
+        }),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe('overlaps', () => {
+  test('services doing the same job are flagged once per category', () => {
+    const insights = OverlapDetector.detect([
+      makeSubscription({ id: 'a', serviceName: 'Spotify', category: 'music' }),
+      makeSubscription({ id: 'b', serviceName: 'Apple Music', category: 'music' }),
+      makeSubscription({ id: 'c', serviceName: 'Spotify', category: 'music' }),
+    ]);
+
+    expect(insights.map(insight => [insight.kind, insight.subscriptionIds])).toEqual([
+      ['duplicate', ['a', 'c']],
+      ['overlap', ['a', 'b']],
+    ]);
+  });
+
+  test('ended subscriptions are left out', () => {
+    expect(
+      OverlapDetector.detect([
+        makeSubscription({ id: 'a', serviceName: 'Spotify', category: 'music' }),
+        makeSubscription({ id: 'b', serviceName: 'Apple Music', category: 'music', endDate: '2023-06-01' }),
+      ]),
+    ).toEqual([]);
+  });
+});
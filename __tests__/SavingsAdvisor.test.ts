@@ -0,0 +1,21 @@
+/**
+ * @format
+ */
+
+import { SavingsAdvisor } from '@/service/business/SavingsAdvisor';
+import { inr, makeSubscription } from './fixtures/subscription';
+
+describe('alternatives', () => {
+  test('savings only compare plans of the same tier', () => {
+    const youtube = makeSubscription({
+      serviceName: 'YouTube Premium',
+      amount: inr(149),
+      catalogId: 'youtube-premium',
+      catalogPlanId: 'individual-monthly',
+    });
+
+    expect(SavingsAdvisor.getAlternatives(youtube).map(({ plan }) => plan.label)).toEqual([
+      'Individual (Annual)',
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * @format
+ */
+
+import { ServiceDirectory } from '@/service/business/ServiceDirectory';
+import { inr } from './fixtures/subscription';
+
+describe('service catalog', () => {
+  test('search matches names and aliases, best match first', () => {
+    expect(ServiceDirectory.search('prime').map(service => service.id)).toEqual(['amazon-prime']);
+    expect(ServiceDirectory.search('goo')[0].id).toBe('google-one');
+    expect(ServiceDirectory.find('  Office 365 ')?.name).toBe('Microsoft 365');
+    expect(ServiceDirectory.search('   ')).toEqual([]);
+  });
+
+  test('default plan is priced in the chosen currency', () => {
+    const netflix = ServiceDirectory.find('Netflix')!;
+
+    expect(ServiceDirectory.getPrice(ServiceDirectory.getDefaultPlan(netflix, 'INR')!, 'INR')).toEqual(
+      inr(499),
+    );
+    expect(ServiceDirectory.getDefaultPlan(netflix, 'JPY')).toBeNull();
+  });
+});
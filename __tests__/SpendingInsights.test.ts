@@ -0,0 +1,50 @@
+/**
+ * @format
+ */
+
+import { SpendingInsights } from '@/service/business/SpendingInsights';
+import { inr, makeSubscription } from './fixtures/subscription';
+
+describe('year in review', () => {
+  const netflix = makeSubscription({
+    billingDate: 1,
+    startDate: '2023-01-01',
+    amount: inr(200),
+    paymentMethod: { id: 'card', name: 'HDFC Card' },
+    priceHistory: [
+      { amount: inr(100), effectiveFrom: '2023-01-01' },
+      { amount: inr(200), effectiveFrom: '2024-07-01' },
+    ],
+  });
+  const notion = makeSubscription({
+    id: 'sub_2',
+    serviceName: 'Notion',
+    category: 'productivity',
+    billingDate: 15,
+    startDate: '2024-03-15',
+    amount: inr(50),
+  });
+
+  test('adds up the charges made so far this year at the prices in effect', () => {
+    const review = SpendingInsights.getYearInReview(
+      [netflix, notion],
+      2024,
+      'INR',
+      undefined,
+      new Date(2024, 11, 31),
+    );
+
+    // Netflix: 6 x 100 + 6 x 200; Notion: Mar-Dec, 10 x 50
+    expect(review.totalSpent).toEqual(inr(2300));
+    expect(review.chargeCount).toBe(22);
+    expect(review.averagePerDay).toEqual(inr(6.28));
+    expect(review.newSubscriptions.map(sub => sub.id)).toEqual(['sub_2']);
+    expect(review.spendByPaymentMethod).toEqual([
+      { paymentMethod: 'HDFC Card', amount: inr(1800) },
+      { paymentMethod: 'Unspecified', amount: inr(500) },
+    ]);
+    expect(review.priceIncreases).toHaveLength(1);
+    expect(review.priceIncreases[0].yearlyImpact).toEqual(inr(1200));
+    expect(review.priceIncreases[0].percent).toBe(100);
+  });
+});
@@ -0,0 +1,825 @@
+/**
+ * @format
+ */
+
+import { SubscriptionCalculator } from '@/service/business/SubscriptionCalculator';
+import { ChargeRecord } from '@/types/ledger.types';
+import { migrateSettings, migrateSubscription } from '@/service/backend/subscriptionMigrations';
+import { allocate, fromMajor, money, toMajor } from '@/utils/money';
+import { chargeDays, inr, makeSubscription } from './fixtures/subscription';
+
+describe('billing schedule', () => {
+  const quarterly = makeSubscription({
+    recurrence: { interval: 3, unit: 'month' },
+    billingDate: 15,
+    startDate: '2024-03-15',
+  });
+
+  test('a quarterly plan started in March is not charged the next month', () => {
+    expect(chargeDays(quarterly, new Date(2024, 3, 1), new Date(2024, 4, 31))).toEqual([]);
+    expect(
+      SubscriptionCalculator.getUpcomingChargeDates(quarterly, 3, new Date(2024, 2, 20)),
+    ).toEqual([new Date(2024, 5, 15), new Date(2024, 8, 15), new Date(2024, 11, 15)]);
+  });
+
+  test('previous charge is the last one strictly before the date', () => {
+    expect(SubscriptionCalculator.getPreviousBillingDate(quarterly, new Date(2024, 5, 15))).toEqual(
+      new Date(2024, 2, 15),
+    );
+    expect(SubscriptionCalculator.getPreviousBillingDate(quarterly, new Date(2024, 5, 16))).toEqual(
+      new Date(2024, 5, 15),
+    );
+    expect(SubscriptionCalculator.getPreviousBillingDate(quarterly, new Date(2024, 2, 15))).toBeNull();
+  });
+
+  test('first charge is the first billing day on or after the start date', () => {
+    const subscription = makeSubscription({ billingDate: 5, startDate: '2024-03-20' });
+
+    expect(SubscriptionCalculator.getFirstBillingDate(subscription)).toEqual(new Date(2024, 3, 5));
+  });
+
+  test('a one-time plan stops after its cycle limit and ends a cycle later', () => {
+    const subscription = makeSubscription({
+      billingDate: 1,
+      startDate: '2024-01-01',
+      isOneTime: true,
+      cycleLimit: 3,
+    });
+
+    expect(chargeDays(subscription, new Date(2024, 0, 1), new Date(2024, 11, 31))).toEqual([
+      '2024-1-1',
+      '2024-2-1',
+      '2024-3-1',
+    ]);
+    expect(SubscriptionCalculator.getSubscriptionEndDate(subscription)).toEqual(new Date(2024, 3, 1));
+    expect(SubscriptionCalculator.getCancellationReminderDate(subscription)).toEqual(
+      new Date(2024, 2, 1),
+    );
+  });
+
+  test('next charge falls back to the last one walked instead of throwing', () => {
+    // Daily since 2000: more charges than the walk limit covers
+    const daily = makeSubscription({ recurrence: { interval: 1, unit: 'day' }, billingDate: 1, startDate: '2000-01-01' });
+
+    expect(SubscriptionCalculator.getNextBillingDate(daily)).toEqual(new Date(2000, 0, 1 + 4999));
+  });
+
+  test('subscriptions sort by their next charge', () => {
+    const later = makeSubscription({ id: 'later', billingDate: 20, startDate: '2024-01-20' });
+    const sooner = makeSubscription({ id: 'sooner', billingDate: 5, startDate: '2024-01-05' });
+    jest.useFakeTimers({ now: new Date(2024, 1, 1) });
+    const sorted = SubscriptionCalculator.sortByNextBilling([later, sooner]);
+    jest.useRealTimers();
+
+    expect(sorted.map(sub => sub.id)).toEqual(['sooner', 'later']);
+  });
+
+  test('cycle counts are described in the plan\'s own billing unit', () => {
+    expect(SubscriptionCalculator.formatCycleCount(3, { interval: 1, unit: 'month' })).toBe('3 months');
+    expect(SubscriptionCalculator.formatCycleCount(1, { interval: 1, unit: 'year' })).toBe('1 year');
+    expect(SubscriptionCalculator.formatCycleCount(4, { interval: 3, unit: 'month' })).toBe(
+      '4 cycles, quarterly',
+    );
+    expect(SubscriptionCalculator.formatCycleCount(5, { interval: 10, unit: 'day' })).toBe(
+      '5 cycles, every 10 days',
+    );
+  });
+});
+
+describe('month-end policy', () => {
+  test('clamp bills on the last day of short months and returns to the 31st', () => {
+    const subscription = makeSubscription({ monthEndPolicy: 'clamp' });
+
+    expect(chargeDays(subscription, new Date(2023, 0, 1), new Date(2023, 4, 31))).toEqual([
+      '2023-1-31',
+      '2023-2-28',
+      '2023-3-31',
+      '2023-4-30',
+      '2023-5-31',
+    ]);
+  });
+
+  test('clamp uses February 29th in a leap year', () => {
+    const subscription = makeSubscription({ startDate: '2024-01-31' });
+
+    expect(chargeDays(subscription, new Date(2024, 1, 1), new Date(2024, 2, 31))).toEqual([
+      '2024-2-29',
+      '2024-3-31',
+    ]);
+  });
+
+  test('defaults to clamp when no policy is set', () => {
+    const subscription = makeSubscription();
+
+    expect(chargeDays(subscription, new Date(2023, 1, 1), new Date(2023, 2, 31))).toEqual([
+      '2023-2-28',
+      '2023-3-31',
+    ]);
+  });
+
+  test('roll-forward moves a missing day to the 1st of the next month without drifting', () => {
+    const subscription = makeSubscription({ monthEndPolicy: 'roll-forward' });
+
+    expect(chargeDays(subscription, new Date(2023, 0, 1), new Date(2023, 4, 31))).toEqual([
+      '2023-1-31',
+      '2023-3-1',
+      '2023-3-31',
+      '2023-5-1',
+      '2023-5-31',
+    ]);
+  });
+
+  test('last-day always bills on the final day of the month', () => {
+    const subscription = makeSubscription({
+      billingDate: 15,
+      startDate: '2024-01-01',
+      monthEndPolicy: 'last-day',
+    });
+
+    expect(chargeDays(subscription, new Date(2024, 0, 1), new Date(2024, 3, 30))).toEqual([
+      '2024-1-31',
+      '2024-2-29',
+      '2024-3-31',
+      '2024-4-30',
+    ]);
+  });
+
+  test('yearly plan started on February 29th follows the policy in common years', () => {
+    const from = new Date(2024, 0, 1);
+    const to = new Date(2028, 11, 31);
+    const leapDay = { recurrence: { interval: 1, unit: 'year' as const }, billingDate: 29, startDate: '2024-02-29' };
+
+    expect(chargeDays(makeSubscription(leapDay), from, to)).toEqual([
+      '2024-2-29',
+      '2025-2-28',
+      '2026-2-28',
+      '2027-2-28',
+      '2028-2-29',
+    ]);
+    expect(
+      chargeDays(makeSubscription({ ...leapDay, monthEndPolicy: 'roll-forward' }), from, to),
+    ).toEqual(['2024-2-29', '2025-3-1', '2026-3-1', '2027-3-1', '2028-2-29']);
+  });
+
+  test('quarterly plan on the 30th clamps only in February', () => {
+    const subscription = makeSubscription({
+      recurrence: { interval: 3, unit: 'month' },
+      billingDate: 30,
+      startDate: '2023-11-30',
+    });
+
+    expect(chargeDays(subscription, new Date(2023, 10, 1), new Date(2024, 7, 31))).toEqual([
+      '2023-11-30',
+      '2024-2-29',
+      '2024-5-30',
+      '2024-8-30',
+    ]);
+  });
+
+  test('first charge in a short month resolves with the policy', () => {
+    const start = { startDate: '2023-02-10' };
+
+    expect(SubscriptionCalculator.getFirstBillingDate(makeSubscription(start))).toEqual(
+      new Date(2023, 1, 28),
+    );
+    expect(
+      SubscriptionCalculator.getFirstBillingDate(
+        makeSubscription({ ...start, monthEndPolicy: 'roll-forward' }),
+      ),
+    ).toEqual(new Date(2023, 2, 1));
+  });
+});
+
+describe('calendar dates', () => {
+  test('start date is read as a local calendar day, not a UTC instant', () => {
+    const subscription = makeSubscription({ billingDate: 1, startDate: '2024-03-01' });
+
+    expect(SubscriptionCalculator.getFirstBillingDate(subscription)).toEqual(new Date(2024, 2, 1));
+  });
+
+  test('legacy Date start dates migrate to the same local calendar day', () => {
+    const legacy = {
+      ...makeSubscription(),
+      startDate: new Date(2023, 0, 31, 23, 30).toISOString(),
+      createdAt: new Date(2023, 0, 31).toISOString(),
+    };
+
+    const migrated = migrateSubscription(JSON.parse(JSON.stringify(legacy)));
+
+    expect(migrated.startDate).toBe('2023-01-31');
+    expect(migrated.createdAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('free trials', () => {
+  const trial = makeSubscription({
+    amount: inr(100),
+    billingDate: 10,
+    startDate: '2024-01-05',
+    trialDays: 14,
+  });
+
+  test('billing starts on the first billing day after the trial ends', () => {
+    expect(SubscriptionCalculator.getTrialEndDate(trial)).toEqual(new Date(2024, 0, 19));
+    expect(SubscriptionCalculator.getFirstBillingDate(trial)).toEqual(new Date(2024, 1, 10));
+    expect(
+      SubscriptionCalculator.getFirstBillingDate({ ...trial, trialEndDate: '2024-03-01' }),
+    ).toEqual(new Date(2024, 2, 10));
+  });
+
+  test('day and week cycles are anchored on the trial end', () => {
+    const weekly = { ...trial, recurrence: { interval: 1, unit: 'week' as const } };
+
+    expect(chargeDays(weekly, new Date(2024, 0, 1), new Date(2024, 1, 2))).toEqual([
+      '2024-1-19',
+      '2024-1-26',
+      '2024-2-2',
+    ]);
+  });
+
+  test('trial days cost nothing and the post-trial price applies after', () => {
+    const converting = { ...trial, postTrialAmount: inr(200) };
+
+    expect(SubscriptionCalculator.getStatus(converting, new Date(2024, 0, 10))).toBe('trial');
+    expect(SubscriptionCalculator.getMonthlyEquivalent(converting, new Date(2024, 0, 10))).toEqual(
+      inr(0),
+    );
+    expect(SubscriptionCalculator.getMonthlyEquivalent(converting, new Date(2024, 1, 15))).toEqual(
+      inr(200),
+    );
+    expect(SubscriptionCalculator.getChargeTotal(converting, new Date(2024, 1, 10))).toEqual(inr(200));
+  });
+});
+
+describe('price history', () => {
+  const subscription = makeSubscription({
+    amount: inr(200),
+    billingDate: 1,
+    startDate: '2024-01-01',
+    priceHistory: [
+      { amount: inr(100), effectiveFrom: '2024-01-01' },
+      { amount: inr(200), effectiveFrom: '2024-04-01' },
+    ],
+  });
+
+  test('each charge uses the price in effect on its date', () => {
+    expect(SubscriptionCalculator.getChargeAmount(subscription, new Date(2024, 2, 1))).toEqual(inr(100));
+    expect(SubscriptionCalculator.getChargeAmount(subscription, new Date(2024, 3, 1))).toEqual(inr(200));
+    expect(SubscriptionCalculator.getChargeAmount(subscription, new Date(2023, 11, 1))).toEqual(inr(100));
+    expect(
+      SubscriptionCalculator.getSpendInRange(subscription, new Date(2024, 0, 1), new Date(2024, 5, 30)),
+    ).toEqual(inr(900));
+  });
+
+  test('the first change seeds the history with the price so far', () => {
+    const flat = makeSubscription({ amount: inr(100), billingDate: 1, startDate: '2024-01-01' });
+
+    expect(SubscriptionCalculator.addPriceChange(flat, inr(150), new Date(2024, 5, 1))).toEqual([
+      { amount: inr(100), effectiveFrom: '2024-01-01' },
+      { amount: inr(150), effectiveFrom: '2024-06-01' },
+    ]);
+  });
+
+  test('a new change supersedes changes scheduled on or after it', () => {
+    expect(SubscriptionCalculator.addPriceChange(subscription, inr(150), new Date(2024, 2, 15))).toEqual([
+      { amount: inr(100), effectiveFrom: '2024-01-01' },
+      { amount: inr(150), effectiveFrom: '2024-03-15' },
+    ]);
+  });
+
+  test('the post-trial price applies after the trial until the next change', () => {
+    const trial = makeSubscription({
+      amount: inr(100),
+      postTrialAmount: inr(200),
+      billingDate: 1,
+      startDate: '2024-01-01',
+      trialDays: 31,
+      priceHistory: [
+        { amount: inr(100), effectiveFrom: '2024-01-01' },
+        { amount: inr(250), effectiveFrom: '2024-06-01' },
+      ],
+    });
+
+    expect(SubscriptionCalculator.getChargeAmount(trial, new Date(2024, 1, 1))).toEqual(inr(200));
+    expect(SubscriptionCalculator.getChargeAmount(trial, new Date(2024, 5, 1))).toEqual(inr(250));
+  });
+});
+
+describe('pauses', () => {
+  const paused = makeSubscription({
+    billingDate: 10,
+    startDate: '2024-01-10',
+    pauses: [{ startDate: '2024-02-05', resumeDate: '2024-02-20' }],
+  });
+
+  test('charges after a pause shift by its length', () => {
+    expect(chargeDays(paused, new Date(2024, 0, 1), new Date(2024, 3, 30))).toEqual([
+      '2024-1-10',
+      '2024-2-25',
+      '2024-3-25',
+      '2024-4-25',
+    ]);
+  });
+
+  test('last-day plans keep the shifted day after a pause', () => {
+    const lastDay = makeSubscription({
+      startDate: '2024-01-31',
+      monthEndPolicy: 'last-day',
+      pauses: [{ startDate: '2024-02-05', resumeDate: '2024-02-20' }],
+    });
+
+    expect(chargeDays(lastDay, new Date(2024, 0, 1), new Date(2024, 4, 31))).toEqual([
+      '2024-1-31',
+      '2024-3-15',
+      '2024-4-15',
+      '2024-5-15',
+    ]);
+  });
+
+  test('paused days cost nothing', () => {
+    expect(SubscriptionCalculator.getStatus(paused, new Date(2024, 1, 10))).toBe('paused');
+    expect(SubscriptionCalculator.getMonthlyEquivalent(paused, new Date(2024, 1, 10))).toEqual(inr(0));
+    expect(SubscriptionCalculator.getMonthlyEquivalent(paused, new Date(2024, 1, 20))).toEqual(inr(649));
+  });
+
+  test('an ongoing pause is extended or ended in place', () => {
+    const today = new Date(2024, 1, 10);
+
+    expect(SubscriptionCalculator.setPause(paused, new Date(2024, 2, 1), today)).toEqual([
+      { startDate: '2024-02-05', resumeDate: '2024-03-01' },
+    ]);
+    expect(SubscriptionCalculator.setPause(paused, null, today)).toEqual([
+      { startDate: '2024-02-05', resumeDate: '2024-02-10' },
+    ]);
+    expect(SubscriptionCalculator.setPause(paused, null, new Date(2024, 1, 5))).toEqual([]);
+  });
+});
+
+describe('categories and tags', () => {
+  test('monthly spend is grouped by category in the target currency', () => {
+    const date = new Date(2023, 5, 1);
+    const subscriptions = [
+      makeSubscription({ category: 'streaming', amount: inr(100) }),
+      makeSubscription({ id: 'sub_2', category: 'streaming', amount: fromMajor(1, 'USD'), currency: 'USD' }),
+      makeSubscription({ id: 'sub_3', amount: inr(1200), recurrence: { interval: 1, unit: 'year' } }),
+      makeSubscription({ id: 'sub_4', category: 'music', amount: inr(50), isDeleted: true }),
+    ];
+
+    expect(SubscriptionCalculator.getSpendByCategory(subscriptions, 'INR', undefined, date)).toEqual({
+      streaming: inr(183),
+      other: inr(100),
+    });
+  });
+
+  test('category defaults come from the service catalog', () => {
+    expect(SubscriptionCalculator.getDefaultCategory('spotify')).toBe('music');
+    expect(SubscriptionCalculator.getDefaultCategory('Corner Gym')).toBe('other');
+  });
+
+  test('tags are trimmed, lowercased and deduplicated', () => {
+    expect(SubscriptionCalculator.normalizeTags([' Work ', 'work', '', 'Family'])).toEqual([
+      'work',
+      'family',
+    ]);
+  });
+});
+
+describe('budgets', () => {
+  const streaming = makeSubscription({ category: 'streaming', amount: inr(300) });
+  const music = makeSubscription({ id: 'sub_2', category: 'music', amount: inr(300) });
+  const budgets = { monthlyBudget: inr(500), categoryBudgets: { music: inr(200), streaming: inr(1000) } };
+  const date = new Date(2023, 5, 1);
+
+  test('reports used and remaining for the overall and category budgets', () => {
+    const { budget, categoryBudgets } = SubscriptionCalculator.getBudgets(
+      [streaming, music],
+      budgets,
+      'INR',
+      undefined,
+      date,
+    );
+
+    expect(budget).toEqual({
+      category: undefined,
+      limit: inr(500),
+      used: inr(600),
+      remaining: inr(-100),
+      isOverBudget: true,
+    });
+    expect(categoryBudgets.map(status => [status.category, status.isOverBudget])).toEqual([
+      ['music', true],
+      ['streaming', false],
+    ]);
+  });
+
+  test('only budgets a change pushes over (or further over) are reported', () => {
+    const exceeded = SubscriptionCalculator.getExceededBudgets([streaming], [streaming, music], budgets, 'INR');
+
+    expect(exceeded.map(status => status.category)).toEqual([undefined, 'music']);
+    expect(
+      SubscriptionCalculator.getExceededBudgets([streaming, music], [streaming, music], budgets, 'INR'),
+    ).toEqual([]);
+  });
+
+  test('budgets keep their own currency when the display currency changes', () => {
+    const { budget } = SubscriptionCalculator.getBudgets(
+      [streaming],
+      { monthlyBudget: fromMajor(10, 'USD') },
+      'INR',
+      undefined,
+      date,
+    );
+
+    // Bundled table: 83 INR to the dollar
+    expect(budget?.limit).toEqual(inr(830));
+    expect(
+      SubscriptionCalculator.getBudgets([streaming], { monthlyBudget: fromMajor(1000, 'ARS') }, 'INR').budget,
+    ).toBeUndefined();
+  });
+
+  test('legacy decimal budgets migrate to Money in the settings currency', () => {
+    const migrated = migrateSettings({ currency: 'USD', monthlyBudget: 25, categoryBudgets: { music: 10.5 } });
+
+    expect(migrated.monthlyBudget).toEqual(fromMajor(25, 'USD'));
+    expect(migrated.categoryBudgets).toEqual({ music: fromMajor(10.5, 'USD') });
+    expect(migrateSettings({ currency: 'INR' }).monthlyBudget).toBeUndefined();
+  });
+});
+
+describe('ledger', () => {
+  const subscription = makeSubscription({
+    billingDate: 1,
+    startDate: '2024-01-01',
+    createdAt: new Date(2024, 1, 15),
+  });
+  const paid = (scheduledDate: string, subscriptionId = 'sub_1'): ChargeRecord => ({
+    id: `charge_${subscriptionId}_${scheduledDate}`,
+    userId: 'user_1',
+    subscriptionId,
+    scheduledDate,
+    date: scheduledDate,
+    amount: inr(649),
+    status: 'paid',
+    createdAt: new Date(2024, 3, 1),
+    updatedAt: new Date(2024, 3, 1),
+  });
+
+  test('a record settles the occurrence scheduled on its day', () => {
+    const records = [paid('2024-03-01'), paid('2024-04-01', 'sub_2')];
+
+    expect(SubscriptionCalculator.findChargeRecord(subscription, records, new Date(2024, 2, 1))).toBe(
+      records[0],
+    );
+    expect(
+      SubscriptionCalculator.findChargeRecord(subscription, records, new Date(2024, 3, 1)),
+    ).toBeUndefined();
+  });
+
+  test('due charges are unrecorded ones since the plan was added, within the lookback', () => {
+    const records = [paid('2024-03-01')];
+
+    // Added Feb 15th, so January and February were never due here
+    expect(SubscriptionCalculator.getDueCharges(subscription, records, new Date(2024, 3, 10), 90)).toEqual([
+      new Date(2024, 3, 1),
+    ]);
+    expect(SubscriptionCalculator.getDueCharges(subscription, [], new Date(2024, 4, 10))).toEqual([
+      new Date(2024, 4, 1),
+    ]);
+  });
+});
+
+describe('split costs', () => {
+  const members = [
+    { id: 'me', name: 'Me', isMe: true },
+    { id: 'a', name: 'Asha', share: 2 },
+    { id: 'b', name: 'Ben', fixedAmount: inr(100) },
+  ];
+
+  test('fixed amounts come off first and the rest is split by share', () => {
+    const subscription = makeSubscription({ amount: inr(400), members });
+
+    expect(
+      SubscriptionCalculator.getSplitBreakdown(subscription).map(share => share.amount),
+    ).toEqual([inr(100), inr(200), inr(100)]);
+    expect(SubscriptionCalculator.getMyShare(subscription)).toEqual(inr(100));
+  });
+
+  test('shares always add up to the charge', () => {
+    const subscription = makeSubscription({
+      amount: inr(100),
+      members: [
+        { id: 'me', name: 'Me', isMe: true },
+        { id: 'a', name: 'Asha' },
+        { id: 'b', name: 'Ben' },
+      ],
+    });
+
+    expect(
+      SubscriptionCalculator.getSplitBreakdown(subscription).map(share => share.amount.minor),
+    ).toEqual([3334, 3333, 3333]);
+  });
+
+  test('my-share view only counts the user part of monthly spend', () => {
+    const subscription = makeSubscription({ amount: inr(400), members });
+    const date = new Date(2023, 5, 1);
+
+    expect(SubscriptionCalculator.getMonthlyEquivalent(subscription, date)).toEqual(inr(400));
+    expect(SubscriptionCalculator.getMonthlyEquivalent(subscription, date, 'my-share')).toEqual(
+      inr(100),
+    );
+  });
+});
+
+describe('recurrence', () => {
+  test('bi-weekly plans bill every 14 days from the first charge', () => {
+    const subscription = makeSubscription({
+      recurrence: { interval: 2, unit: 'week' },
+      billingDate: 31,
+      startDate: '2024-01-29',
+    });
+
+    expect(chargeDays(subscription, new Date(2024, 0, 1), new Date(2024, 2, 31))).toEqual([
+      '2024-1-29',
+      '2024-2-12',
+      '2024-2-26',
+      '2024-3-11',
+      '2024-3-25',
+    ]);
+  });
+
+  test('monthly equivalent uses the real number of charges per year', () => {
+    const date = new Date(2023, 5, 1);
+    const fourWeekly = makeSubscription({ amount: inr(100), recurrence: { interval: 4, unit: 'week' } });
+    const biennial = makeSubscription({ amount: inr(240), recurrence: { interval: 2, unit: 'year' } });
+
+    expect(toMajor(SubscriptionCalculator.getMonthlyEquivalent(fourWeekly, date)) * 12).toBeCloseTo(
+      1304.4,
+      1,
+    );
+    expect(SubscriptionCalculator.getMonthlyEquivalent(biennial, date)).toEqual(inr(10));
+  });
+
+  test('labels cycles in words', () => {
+    expect(SubscriptionCalculator.formatRecurrence({ interval: 2, unit: 'week' })).toBe('Bi-weekly');
+    expect(SubscriptionCalculator.formatRecurrence({ interval: 10, unit: 'day' })).toBe('Every 10 days');
+  });
+});
+
+describe('lifecycle', () => {
+  test('a cancelled plan charges through its paid-through date, then ends', () => {
+    const subscription = makeSubscription({ billingDate: 10, startDate: '2024-01-10' });
+    const cancelled = {
+      ...subscription,
+      ...SubscriptionCalculator.cancel(subscription, undefined, new Date(2024, 2, 20)),
+    };
+
+    expect(cancelled.paidThroughDate).toBe('2024-04-09');
+    expect(chargeDays(cancelled, new Date(2024, 0, 1), new Date(2024, 11, 31))).toEqual([
+      '2024-1-10',
+      '2024-2-10',
+      '2024-3-10',
+    ]);
+    expect(SubscriptionCalculator.getStatus(cancelled, new Date(2024, 3, 9))).toBe('cancellation-pending');
+    expect(SubscriptionCalculator.getStatus(cancelled, new Date(2024, 3, 10))).toBe('ended');
+    expect(SubscriptionCalculator.getMonthlyEquivalent(cancelled, new Date(2024, 2, 25))).toEqual(
+      inr(0),
+    );
+  });
+});
+
+describe('contracts', () => {
+  const contract = (autoRenew: boolean) =>
+    makeSubscription({
+      billingDate: 1,
+      startDate: '2024-01-01',
+      contract: {
+        termEndDate: '2024-12-31',
+        autoRenew,
+        renewalTerm: { interval: 1, unit: 'year' },
+        noticeDays: 30,
+      },
+    });
+
+  test('notice deadline moves to the next term once it has passed', () => {
+    const subscription = contract(true);
+
+    expect(SubscriptionCalculator.getNoticeDeadline(subscription, new Date(2024, 5, 1))).toEqual({
+      deadline: new Date(2024, 11, 1),
+      termEnd: new Date(2024, 11, 31),
+    });
+    expect(SubscriptionCalculator.getNoticeDeadline(subscription, new Date(2024, 11, 2))).toEqual({
+      deadline: new Date(2025, 11, 1),
+      termEnd: new Date(2025, 11, 31),
+    });
+  });
+
+  test('a contract that does not auto-renew ends with its term', () => {
+    const subscription = contract(false);
+
+    expect(SubscriptionCalculator.getNoticeDeadline(subscription, new Date(2024, 5, 1))).toBeNull();
+    expect(
+      SubscriptionCalculator.getChargesInRange(subscription, new Date(2024, 0, 1), new Date(2025, 11, 31)),
+    ).toHaveLength(12);
+    expect(SubscriptionCalculator.getStatus(subscription, new Date(2025, 0, 1))).toBe('ended');
+  });
+});
+
+describe('proration', () => {
+  const subscription = makeSubscription({ billingDate: 1, startDate: '2024-01-01' });
+  const changeDate = new Date(2024, 5, 16); // Half of June's 30 days left
+
+  test('an upgrade charges the difference for the rest of the cycle now', () => {
+    const proration = SubscriptionCalculator.getProration(subscription, inr(100), inr(200), changeDate);
+
+    expect(proration.remainingFraction).toBe(0.5);
+    expect(proration.credit).toEqual(inr(50));
+    expect(proration.extraCharge).toEqual(inr(100));
+    expect(proration.amountDue).toEqual(inr(50));
+    expect(proration.nextChargeDate).toEqual(new Date(2024, 6, 1));
+    expect(proration.nextCharge).toEqual(inr(200));
+  });
+
+  test('a downgrade credits the difference against the next charge', () => {
+    const proration = SubscriptionCalculator.getProration(subscription, inr(200), inr(100), changeDate);
+
+    expect(proration.amountDue).toEqual(inr(0));
+    expect(proration.nextCharge).toEqual(inr(50));
+  });
+});
+
+describe('tax and fees', () => {
+  test('percentage fees apply on top of tax and count in the monthly total', () => {
+    const subscription = makeSubscription({
+      amount: inr(1000),
+      recurrence: { interval: 1, unit: 'year' },
+      taxRate: 18,
+      fees: [
+        { label: 'Forex', type: 'percent', value: 2 },
+        { label: 'Processing', type: 'fixed', amount: inr(10) },
+      ],
+    });
+
+    const breakdown = SubscriptionCalculator.getChargeBreakdown(subscription);
+    expect(breakdown.tax).toEqual(inr(180));
+    expect(breakdown.fees).toEqual(inr(33.6));
+    expect(breakdown.total).toEqual(inr(1213.6));
+    expect(
+      SubscriptionCalculator.getMonthlyEquivalent(subscription, new Date(2023, 5, 1)),
+    ).toEqual(inr(101.13));
+  });
+});
+
+describe('currency conversion', () => {
+  test('totals convert each subscription into the target currency', () => {
+    const date = new Date(2023, 5, 1);
+    const subscriptions = [
+      makeSubscription({ amount: inr(100) }),
+      makeSubscription({ id: 'sub_2', amount: fromMajor(10, 'USD'), currency: 'USD' }),
+    ];
+
+    // Bundled table: 83 INR to the dollar
+    expect(SubscriptionCalculator.calculateTotalMonthlySpend(subscriptions, 'INR', undefined, date)).toEqual(
+      inr(930),
+    );
+    expect(SubscriptionCalculator.convertCurrency(inr(83), 'USD')).toEqual(fromMajor(1, 'USD'));
+  });
+
+  test('uses the given rates, and the bundled table for currencies they lack', () => {
+    const rates = {
+      base: 'USD' as const,
+      rates: { USD: 1, INR: 80 },
+      fetchedAt: new Date(2025, 0, 1),
+      source: 'test',
+    };
+
+    expect(SubscriptionCalculator.convertCurrency(fromMajor(1, 'USD'), 'INR', rates)).toEqual(inr(80));
+    expect(SubscriptionCalculator.convertCurrency(fromMajor(1, 'GBP'), 'INR', rates)).toEqual(inr(105.06));
+  });
+
+  test('leaves currencies without a rate out of totals instead of assuming 1', () => {
+    const date = new Date(2023, 5, 1);
+    const pesos = makeSubscription({ id: 'sub_2', amount: fromMajor(1000, 'ARS'), currency: 'ARS' });
+    const subscriptions = [makeSubscription({ amount: inr(100) }), pesos];
+
+    expect(SubscriptionCalculator.canConvert('ARS', 'INR')).toBe(false);
+    expect(() => SubscriptionCalculator.convertCurrency(fromMajor(1000, 'ARS'), 'INR')).toThrow('ARS');
+    expect(SubscriptionCalculator.calculateTotalMonthlySpend(subscriptions, 'INR', undefined, date)).toEqual(
+      inr(100),
+    );
+    expect(SubscriptionCalculator.getSpendByCategory(subscriptions, 'INR', undefined, date)).toEqual({
+      other: inr(100),
+    });
+    expect(
+      SubscriptionCalculator.getChargesForPeriod(subscriptions, date, new Date(2023, 5, 30), 'INR'),
+    ).toHaveLength(1);
+    expect(SubscriptionCalculator.getUnconvertible(subscriptions, 'INR')).toEqual([pesos]);
+  });
+});
+
+describe('currency formatting', () => {
+  test('follows the currency minor units and locale digit grouping', () => {
+    expect(SubscriptionCalculator.formatCurrency(fromMajor(1200, 'JPY'), 'en-US')).toBe('¥1,200');
+    expect(SubscriptionCalculator.formatCurrency(inr(100000), 'en-IN')).toBe('₹1,00,000.00');
+    // Intl separates code and amount with a non-breaking space
+    expect(
+      SubscriptionCalculator.formatCurrency(fromMajor(1.5, 'KWD'), 'en-US').replace(/\s/g, ' '),
+    ).toBe('KWD 1.500');
+  });
+});
+
+describe('money', () => {
+  test('converts decimal amounts with the currency minor units', () => {
+    expect(fromMajor(19.99, 'USD')).toEqual(money(1999, 'USD'));
+    expect(fromMajor(1.2345, 'KWD')).toEqual(money(1235, 'KWD'));
+    expect(fromMajor(1200.5, 'JPY', 'half-even')).toEqual(money(1200, 'JPY'));
+  });
+
+  test('allocation hands out every minor unit', () => {
+    expect(allocate(money(1000, 'USD'), [1, 1, 1]).map(part => part.minor)).toEqual([334, 333, 333]);
+    expect(allocate(money(5, 'USD'), [0, 0])).toEqual([money(0, 'USD'), money(0, 'USD')]);
+  });
+
+  test('legacy decimal amounts migrate to Money in the subscription currency', () => {
+    const legacy = {
+      ...makeSubscription(),
+      amount: 12.5,
+      currency: 'USD',
+      fees: [{ label: 'Processing', type: 'fixed', value: 0.3 }],
+      alternativePlans: [{ recurrence: { interval: 1, unit: 'year' }, amount: 120, currency: 'USD' }],
+    };
+
+    const migrated = migrateSubscription(JSON.parse(JSON.stringify(legacy)));
+
+    expect(migrated.amount).toEqual(money(1250, 'USD'));
+    expect(migrated.fees).toEqual([{ label: 'Processing', type: 'fixed', amount: money(30, 'USD') }]);
+    expect(migrated.alternativePlans).toEqual([
+      { recurrence: { interval: 1, unit: 'year' }, amount: money(12000, 'USD') },
+    ]);
+  });
+});
+
+describe('cash-flow forecast', () => {
+  const subscriptions = [
+    makeSubscription({ amount: inr(100), billingDate: 1, startDate: '2024-01-01' }),
+    makeSubscription({
+      id: 'sub_2',
+      serviceName: 'Cloud',
+      amount: fromMajor(10, 'USD'),
+      currency: 'USD',
+      recurrence: { interval: 3, unit: 'month' },
+      billingDate: 15,
+      startDate: '2024-01-15',
+    }),
+    makeSubscription({
+      id: 'sub_3',
+      serviceName: 'Course',
+      amount: inr(50),
+      billingDate: 5,
+      startDate: '2024-01-05',
+      isOneTime: true,
+      cycleLimit: 2,
+    }),
+  ];
+
+  test('lists each month of charges with quarterly spikes and ended plans', () => {
+    const forecast = SubscriptionCalculator.getCashFlowForecast(
+      subscriptions,
+      'INR',
+      undefined,
+      4,
+      new Date(2024, 0, 10),
+    );
+
+    expect(forecast.map(month => month.month)).toEqual([
+      new Date(2024, 0, 1),
+      new Date(2024, 1, 1),
+      new Date(2024, 2, 1),
+      new Date(2024, 3, 1),
+    ]);
+    // January only counts from the 10th; the dollar plan converts at 83
+    expect(forecast.map(month => month.total)).toEqual([inr(830), inr(150), inr(100), inr(930)]);
+    expect(forecast[3].charges.map(charge => charge.serviceName)).toEqual(['Netflix', 'Cloud']);
+    expect(forecast[3].charges[1].amount).toEqual(fromMajor(10, 'USD'));
+  });
+});
+
+describe('charges by day', () => {
+  test('groups a month of charges by day with each day totalled', () => {
+    const netflix = makeSubscription({ billingDate: 15, startDate: '2023-01-15', amount: inr(649) });
+    const gym = makeSubscription({
+      id: 'sub_2',
+      serviceName: 'Gym',
+      billingDate: 1,
+      startDate: '2024-02-01',
+      amount: inr(100),
+      recurrence: { interval: 1, unit: 'week' },
+    });
+
+    const days = SubscriptionCalculator.getChargesByDay([netflix, gym], new Date(2024, 1, 20), 'INR');
+
+    expect(days.map(day => day.date.getDate())).toEqual([1, 8, 15, 22, 29]);
+    expect(days[2].total).toEqual(inr(749));
+    expect(days[2].charges.map(charge => charge.serviceName)).toEqual(['Netflix', 'Gym']);
+    expect(days[4].total).toEqual(inr(100));
+  });
+});
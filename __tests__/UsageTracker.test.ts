@@ -0,0 +1,69 @@
+/**
+ * @format
+ */
+
+import { UsageTracker } from '@/service/business/UsageTracker';
+import { inr, makeSubscription } from './fixtures/subscription';
+
+const date = new Date(2024, 5, 30);
+
+describe('check-ins', () => {
+  test('one check-in per day, kept in order', () => {
+    const subscription = makeSubscription({ usageCheckIns: ['2024-06-10', '2024-06-20'] });
+
+    expect(UsageTracker.addCheckIn(subscription, new Date(2024, 5, 15))).toEqual([
+      '2024-06-10',
+      '2024-06-15',
+      '2024-06-20',
+    ]);
+    expect(UsageTracker.addCheckIn(subscription, new Date(2024, 5, 20))).toBe(subscription.usageCheckIns);
+  });
+});
+
+describe('unused subscriptions', () => {
+  test('unused once the last check-in is at least the threshold ago', () => {
+    const subscription = makeSubscription({ usageCheckIns: ['2024-05-31'] });
+
+    expect(UsageTracker.getDaysSinceLastUse(subscription, date)).toBe(30);
+    expect(UsageTracker.isUnused(subscription, 30, date)).toBe(true);
+    expect(UsageTracker.isUnused(subscription, 31, date)).toBe(false);
+  });
+
+  test('never-used subscriptions count from their start date', () => {
+    const subscription = makeSubscription({ startDate: '2024-06-20' });
+
+    expect(UsageTracker.getLastUsedDate(subscription)).toBeNull();
+    expect(UsageTracker.isUnused(subscription, 30, date)).toBe(false);
+  });
+
+  test('lists renewing subscriptions only, longest unused first', () => {
+    const subscriptions = [
+      makeSubscription({ id: 'a', usageCheckIns: ['2024-05-20'] }),
+      makeSubscription({ id: 'b', usageCheckIns: ['2024-04-01'] }),
+      makeSubscription({ id: 'c', usageCheckIns: ['2024-06-25'] }),
+      makeSubscription({ id: 'd', usageCheckIns: ['2024-01-01'], endDate: '2024-06-01' }),
+    ];
+
+    expect(UsageTracker.getUnusedSubscriptions(subscriptions, 30, date).map(sub => sub.id)).toEqual([
+      'b',
+      'a',
+    ]);
+  });
+});
+
+describe('cost per use', () => {
+  test('spreads the monthly cost over the uses in the window', () => {
+    const subscription = makeSubscription({
+      amount: inr(300),
+      usageCheckIns: ['2024-05-15', '2024-06-05', '2024-06-15', '2024-06-25'],
+    });
+
+    expect(UsageTracker.getUseCount(subscription, 30, date)).toBe(3);
+    // 30 of the average 30.44 days in a month, over 3 uses
+    expect(UsageTracker.getCostPerUse(subscription, 30, date)).toEqual(inr(98.56));
+  });
+
+  test('is null without any use', () => {
+    expect(UsageTracker.getCostPerUse(makeSubscription(), 30, date)).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Shared test fixtures for subscriptions
+ */
+
+import { SubscriptionCalculator } from '@/service/business/SubscriptionCalculator';
+import { Subscription } from '@/types/subscription.types';
+import { fromMajor } from '@/utils/money';
+
+export const inr = (amount: number) => fromMajor(amount, 'INR');
+
+export const makeSubscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+  id: 'sub_1',
+  userId: 'user_1',
+  serviceName: 'Netflix',
+  amount: inr(649),
+  currency: 'INR',
+  billingDate: 31,
+  recurrence: { interval: 1, unit: 'month' },
+  startDate: '2023-01-31',
+  isOneTime: false,
+  reminderEnabled: true,
+  reminderDaysBefore: 3,
+  createdAt: new Date(2023, 0, 31),
+  updatedAt: new Date(2023, 0, 31),
+  ...overrides,
+});
+
+export const chargeDays = (subscription: Subscription, from: Date, to: Date): string[] =>
+  SubscriptionCalculator.getChargesInRange(subscription, from, to).map(
+    date => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`,
+  );
@@ -0,0 +1,159 @@
+/**
+ * Currency Picker Modal
+ * 
+ * Searchable list of ISO-4217 currencies (by code or name)
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+} from 'react-native';
+import { Currency } from '@/types/currency.types';
+import { searchCurrencies } from '@/utils/currency';
+
+interface CurrencyPickerProps {
+  visible: boolean;
+  selected: Currency;
+  onSelect: (currency: Currency) => void;
+  onClose: () => void;
+}
+
+export const CurrencyPicker: React.FC<CurrencyPickerProps> = ({
+  visible,
+  selected,
+  onSelect,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchCurrencies(query), [query]);
+
+  const handleClose = () => {
+    setQuery('');
+    onClose();
+  };
+
+  const handleSelect = (currency: Currency) => {
+    onSelect(currency);
+    handleClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Currency</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search by code or name"
+          placeholderTextColor="#999"
+          autoCorrect={false}
+          autoCapitalize="none"
+        />
+
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.code}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => (
+            <TouchableOpacity style={styles.row} onPress={() => handleSelect(item.code)}>
+              <Text style={styles.code}>{item.code}</Text>
+              <Text style={styles.name}>{item.name}</Text>
+              {item.code === selected && <Text style={styles.check}>✓</Text>}
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={<Text style={styles.empty}>No currencies match "{query}"</Text>}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#666666',
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  searchInput: {
+    height: 48,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    paddingHorizontal: 16,
+    fontSize: 16,
+    color: '#1A1A1A',
+    margin: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  code: {
+    width: 56,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666666',
+  },
+  check: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  empty: {
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#999999',
+    marginTop: 24,
+  },
+});
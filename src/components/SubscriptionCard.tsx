@@ -5,29 +5,54 @@
  */
 
 import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Linking, Alert } from 'react-native';
 import { Subscription } from '@/types/subscription.types';
-import { SubscriptionCalculator } from '@/service/business';
+import {
+  SubscriptionCalculator,
+  UsageTracker,
+  ServiceDirectory,
+  DEFAULT_UNUSED_AFTER_DAYS,
+} from '@/service/business';
+import { parseCalendarDate } from '@/utils/calendarDate';
 
 interface SubscriptionCardProps {
   subscription: Subscription;
   onPress: () => void;
   onDelete: () => void;
   onToggleReminder: () => void;
+  onCheckIn?: () => void;
+  unusedAfterDays?: number;
 }
 
 export const SubscriptionCard: React.FC<SubscriptionCardProps> = ({
   subscription,
   onPress,
   onDelete,
+  onCheckIn,
+  unusedAfterDays = DEFAULT_UNUSED_AFTER_DAYS,
 }) => {
   const nextBilling = SubscriptionCalculator.getNextBillingDate(subscription);
   const daysUntil = SubscriptionCalculator.getDaysUntilBilling(subscription);
   const progress = SubscriptionCalculator.getBillingCycleProgress(subscription);
   const formattedAmount = SubscriptionCalculator.formatCurrency(
-    subscription.amount,
-    subscription.currency
+    SubscriptionCalculator.getChargeTotal(subscription)
   );
+  const status = SubscriptionCalculator.getStatus(subscription);
+  const isInTrial = SubscriptionCalculator.isInTrial(subscription);
+  const activePause = SubscriptionCalculator.getActivePause(subscription);
+  const notice = SubscriptionCalculator.getNoticeDeadline(subscription);
+  const isUnused = UsageTracker.isUnused(subscription, unusedAfterDays);
+  const costPerUse = UsageTracker.getCostPerUse(subscription, unusedAfterDays);
+  const catalogService = ServiceDirectory.findForSubscription(subscription);
+  const cancellationUrl = catalogService && ServiceDirectory.getCancellationUrl(catalogService);
+
+  const handleHowToCancel = async () => {
+    try {
+      await Linking.openURL(cancellationUrl!);
+    } catch {
+      Alert.alert('How to Cancel', `Open ${cancellationUrl} in your browser to cancel.`);
+    }
+  };
 
   const getDaysText = () => {
     if (daysUntil === 0) return 'Today';
@@ -44,17 +69,25 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = ({
   return (
     <TouchableOpacity style={styles.card} onPress={onPress} activeOpacity={0.7}>
       <View style={styles.header}>
-        <View style={styles.iconContainer}>
+        <View
+          style={[
+            styles.iconContainer,
+            catalogService && { backgroundColor: `${catalogService.brandColor}1A` },
+          ]}
+        >
           <Text style={styles.icon}>{subscription.serviceIcon || '💳'}</Text>
         </View>
         <View style={styles.content}>
           <Text style={styles.serviceName}>{subscription.serviceName}</Text>
           <Text style={styles.frequency}>
-            {subscription.frequency} • {subscription.paymentMethod?.name || 'No payment method'}
+            {SubscriptionCalculator.formatRecurrence(subscription.recurrence)} • {subscription.paymentMethod?.name || 'No payment method'}
           </Text>
         </View>
         <View style={styles.amountContainer}>
           <Text style={styles.amount}>{formattedAmount}</Text>
+          {(!!subscription.taxRate || !!subscription.fees?.length) && (
+            <Text style={styles.amountNote}>incl. tax & fees</Text>
+          )}
         </View>
       </View>
 
@@ -70,14 +103,78 @@ export const SubscriptionCard: React.FC<SubscriptionCardProps> = ({
 
       {/* Next Billing Date */}
       <Text style={styles.nextBilling}>
-        Next: {nextBilling.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+        {status === 'cancellation-pending'
+          ? `Paid through: ${parseCalendarDate(subscription.paidThroughDate!).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+          : `${isInTrial ? 'Trial ends' : 'Next'}: ${nextBilling.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
       </Text>
 
+      {/* Contract notice deadline */}
+      {notice && (
+        <Text style={styles.nextBilling}>
+          Give notice by {notice.deadline.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} to stop renewal
+        </Text>
+      )}
+
+      {/* Cancellation link from the service catalog */}
+      {cancellationUrl && SubscriptionCalculator.isRenewing(subscription) && (
+        <TouchableOpacity onPress={handleHowToCancel} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Text style={styles.cancelLink}>How to cancel ›</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Usage */}
+      {onCheckIn && (
+        <View style={styles.usageRow}>
+          <Text style={[styles.usageText, isUnused && styles.usageTextUnused]}>
+            {isUnused
+              ? `Not used in ${UsageTracker.getDaysSinceLastUse(subscription)} days`
+              : costPerUse !== null
+                ? `${SubscriptionCalculator.formatCurrency(costPerUse)} per use`
+                : 'Used recently'}
+          </Text>
+          <TouchableOpacity onPress={onCheckIn} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.checkInText}>✓ I used it</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Cancellation indicator */}
+      {status === 'cancellation-pending' && (
+        <View style={[styles.badge, styles.cancelledBadge]}>
+          <Text style={styles.badgeText}>Cancelled</Text>
+        </View>
+      )}
+
+      {/* Free trial indicator */}
+      {status === 'trial' && (
+        <View style={[styles.badge, styles.trialBadge]}>
+          <Text style={styles.badgeText}>Free trial</Text>
+        </View>
+      )}
+
+      {/* Paused indicator */}
+      {status === 'paused' && activePause && (
+        <View style={[styles.badge, styles.pausedBadge]}>
+          <Text style={styles.badgeText}>
+            Paused until {parseCalendarDate(activePause.resumeDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </Text>
+        </View>
+      )}
+
       {/* One-time indicator */}
-      {subscription.isOneTime && subscription.cycleLimit && (
+      {status === 'active' && subscription.isOneTime && subscription.cycleLimit && (
         <View style={styles.badge}>
           <Text style={styles.badgeText}>
-            {subscription.cycleLimit} months
+            {SubscriptionCalculator.formatCycleCount(subscription.cycleLimit, subscription.recurrence)}
+          </Text>
+        </View>
+      )}
+
+      {/* Split indicator */}
+      {SubscriptionCalculator.isSplit(subscription) && (
+        <View style={styles.splitBadge}>
+          <Text style={styles.badgeText}>
+            👥 Split {subscription.members!.length} ways • You {SubscriptionCalculator.formatCurrency(SubscriptionCalculator.getMyShare(subscription))}
           </Text>
         </View>
       )}
@@ -137,7 +234,6 @@ const styles = StyleSheet.create({
   frequency: {
     fontSize: 12,
     color: '#666666',
-    textTransform: 'capitalize',
   },
   amountContainer: {
     alignItems: 'flex-end',
@@ -147,6 +243,11 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#1A1A1A',
   },
+  amountNote: {
+    fontSize: 10,
+    color: '#999999',
+    marginTop: 2,
+  },
   progressContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -175,6 +276,30 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999999',
   },
+  usageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  usageText: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  usageTextUnused: {
+    color: '#FF6B6B',
+  },
+  checkInText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  cancelLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666666',
+    marginTop: 8,
+  },
   badge: {
     position: 'absolute',
     top: 12,
@@ -184,6 +309,24 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     paddingVertical: 4,
   },
+  trialBadge: {
+    backgroundColor: '#4DA3FF',
+  },
+  pausedBadge: {
+    backgroundColor: '#9E9E9E',
+  },
+  cancelledBadge: {
+    backgroundColor: '#FF6B6B',
+  },
+  // Sits below the dates so it doesn't collide with the corner badges
+  splitBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#8E7CC3',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginTop: 8,
+  },
   badgeText: {
     fontSize: 10,
     fontWeight: '600',
@@ -17,8 +17,127 @@ import {
   Platform,
   Alert,
 } from 'react-native';
-import { Subscription, BillingFrequency, Currency, POPULAR_SERVICES } from '@/types/subscription.types';
-import { useSubscriptionStore, useSettingsStore } from '@/store';
+import {
+  Subscription,
+  Recurrence,
+  RecurrenceUnit,
+  Currency,
+  MonthEndPolicy,
+  SubscriptionCategory,
+  SplitMember,
+  ChargeFee,
+  BudgetStatus,
+  SUBSCRIPTION_CATEGORIES,
+  RECURRENCE_PRESETS,
+} from '@/types/subscription.types';
+import { CatalogPlan, CatalogService } from '@/types/serviceCatalog.types';
+import { useSubscriptionStore, useSettingsStore, useExchangeRateStore } from '@/store';
+import { SubscriptionCalculator, ServiceDirectory } from '@/service/business';
+import { CurrencyPicker } from './CurrencyPicker';
+import { isCalendarDate, parseCalendarDate, toCalendarDate, today } from '@/utils/calendarDate';
+import { add, fromMajor, isZero, negate, toMajor } from '@/utils/money';
+
+// Ask when an edited price takes effect; resolves null if the user backs out
+const askPriceEffectiveDate = (subscription: Subscription): Promise<Date | null> =>
+  new Promise(resolve => {
+    const nextBilling = SubscriptionCalculator.getNextBillingDate(subscription);
+    Alert.alert(
+      'Price Changed',
+      'When does the new price apply?',
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+        { text: 'From Now', onPress: () => resolve(new Date()) },
+        {
+          text: `From Next Cycle (${nextBilling.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})`,
+          onPress: () => resolve(nextBilling),
+        },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+
+// Ask before saving a subscription that pushes spend over budget
+const confirmOverBudget = (budgets: BudgetStatus[]): Promise<boolean> =>
+  new Promise(resolve => {
+    const lines = budgets.map(budget => {
+      const label = budget.category
+        ? SUBSCRIPTION_CATEGORIES.find(c => c.value === budget.category)?.label
+        : 'Monthly';
+      return `${label}: ${SubscriptionCalculator.formatCurrency(budget.used)} of ${SubscriptionCalculator.formatCurrency(budget.limit)}`;
+    });
+    Alert.alert(
+      'Over Budget',
+      `This subscription takes you over budget.\n\n${lines.join('\n')}`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Save Anyway', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+
+// Editable copy of a split member (inputs are strings until saved)
+type MemberDraft = {
+  id: string;
+  name: string;
+  isMe?: boolean;
+  mode: 'share' | 'fixed';
+  value: string;
+};
+
+const toMemberDraft = (member: SplitMember): MemberDraft => ({
+  id: member.id,
+  name: member.name,
+  isMe: member.isMe,
+  mode: member.fixedAmount !== undefined ? 'fixed' : 'share',
+  value: String(member.fixedAmount !== undefined ? toMajor(member.fixedAmount) : member.share ?? 1),
+});
+
+const fromMemberDraft = (draft: MemberDraft, currency: Currency): SplitMember => ({
+  id: draft.id,
+  name: draft.name.trim() || (draft.isMe ? 'Me' : 'Member'),
+  isMe: draft.isMe,
+  share: draft.mode === 'share' ? parseFloat(draft.value) || 1 : undefined,
+  fixedAmount: draft.mode === 'fixed' ? fromMajor(parseFloat(draft.value) || 0, currency) : undefined,
+});
+
+// The one card fee the form edits, as entered (a percentage or an amount)
+const toCardFees = (type: ChargeFee['type'], value: number, currency: Currency): ChargeFee[] => {
+  if (!(value > 0)) return [];
+  return type === 'percent'
+    ? [{ label: 'Card fee', type, value }]
+    : [{ label: 'Card fee', type, amount: fromMajor(value, currency) }];
+};
+
+// Re-entering a price in another currency carries the earlier prices over as-is
+const withCurrency = (subscription: Subscription, currency: Currency): Subscription =>
+  subscription.currency === currency
+    ? subscription
+    : {
+        ...subscription,
+        currency,
+        amount: fromMajor(toMajor(subscription.amount), currency),
+        priceHistory: subscription.priceHistory?.map(price => ({
+          ...price,
+          amount: fromMajor(toMajor(price.amount), currency),
+        })),
+      };
+
+const MONTH_END_POLICIES: { value: MonthEndPolicy; label: string }[] = [
+  { value: 'clamp', label: 'Last day if shorter' },
+  { value: 'roll-forward', label: '1st of next month' },
+  { value: 'last-day', label: 'Always last day' },
+];
+
+const RECURRENCE_UNITS: { value: RecurrenceUnit; label: string }[] = [
+  { value: 'day', label: 'Days' },
+  { value: 'week', label: 'Weeks' },
+  { value: 'month', label: 'Months' },
+  { value: 'year', label: 'Years' },
+];
+
+const isPresetRecurrence = (recurrence: Recurrence) =>
+  RECURRENCE_PRESETS.some(preset => SubscriptionCalculator.isSameRecurrence(preset.recurrence, recurrence));
 
 interface SubscriptionFormProps {
   visible: boolean;
@@ -33,41 +152,118 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
   subscription,
   userId,
 }) => {
-  const { addSubscription, updateSubscription } = useSubscriptionStore();
-  const { currency, defaultReminderDays } = useSettingsStore();
+  const { subscriptions, addSubscription, updateSubscription } = useSubscriptionStore();
+  const { currency, defaultReminderDays, monthlyBudget, categoryBudgets } = useSettingsStore();
+  const { rates } = useExchangeRateStore();
 
   const isEditing = !!subscription;
 
   // Form state
   const [serviceName, setServiceName] = useState('');
   const [serviceIcon, setServiceIcon] = useState('💳');
+  const [category, setCategory] = useState<SubscriptionCategory>('other');
+  // Once the user picks a category, stop guessing it from the service name
+  const [categoryPicked, setCategoryPicked] = useState(false);
+  const [catalogId, setCatalogId] = useState<string | undefined>(undefined);
+  const [catalogPlanId, setCatalogPlanId] = useState<string | undefined>(undefined);
+  const [tags, setTags] = useState('');
   const [amount, setAmount] = useState('');
+  const [taxRate, setTaxRate] = useState('');
+  const [feeType, setFeeType] = useState<ChargeFee['type']>('percent');
+  const [feeValue, setFeeValue] = useState('');
   const [selectedCurrency, setSelectedCurrency] = useState<Currency>(currency || 'INR');
+  const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
   const [billingDate, setBillingDate] = useState('1');
-  const [frequency, setFrequency] = useState<BillingFrequency>('monthly');
-  const [customDays, setCustomDays] = useState('');
+  // Dates are entered as calendar days (YYYY-MM-DD)
+  const [startDate, setStartDate] = useState(today());
+  const [monthEndPolicy, setMonthEndPolicy] = useState<MonthEndPolicy>('clamp');
+  // Billed every `recurrenceInterval` units; custom shows the free-form editor
+  const [recurrenceInterval, setRecurrenceInterval] = useState('1');
+  const [recurrenceUnit, setRecurrenceUnit] = useState<RecurrenceUnit>('month');
+  const [customRecurrence, setCustomRecurrence] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState('');
   const [isOneTime, setIsOneTime] = useState(false);
   const [cycleLimit, setCycleLimit] = useState('');
+  const [hasContract, setHasContract] = useState(false);
+  const [termEndDate, setTermEndDate] = useState('');
+  const [noticeDays, setNoticeDays] = useState('');
+  const [autoRenew, setAutoRenew] = useState(true);
+  const [renewalTerm, setRenewalTerm] = useState<Recurrence>({ interval: 1, unit: 'year' });
+  const [hasTrial, setHasTrial] = useState(false);
+  const [trialDays, setTrialDays] = useState('');
+  const [trialEndDate, setTrialEndDate] = useState('');
+  const [postTrialAmount, setPostTrialAmount] = useState('');
+  // Another plan the service offers, for savings advice
+  const [altAmount, setAltAmount] = useState('');
+  const [altRecurrence, setAltRecurrence] = useState<Recurrence>({ interval: 1, unit: 'year' });
+  const [isSplit, setIsSplit] = useState(false);
+  const [members, setMembers] = useState<MemberDraft[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [resumeDate, setResumeDate] = useState('');
+  // Mid-cycle plan change: new price and the day it takes effect
+  const [isChangingPlan, setIsChangingPlan] = useState(false);
+  const [planAmount, setPlanAmount] = useState('');
+  const [planChangeDate, setPlanChangeDate] = useState(today());
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [paidThroughDate, setPaidThroughDate] = useState('');
   const [reminderEnabled, setReminderEnabled] = useState(true);
   const [reminderDays, setReminderDays] = useState(String(defaultReminderDays || 3));
   const [notes, setNotes] = useState('');
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const recurrence: Recurrence = {
+    interval: parseInt(recurrenceInterval, 10) || 0,
+    unit: recurrenceUnit,
+  };
+
   useEffect(() => {
     if (subscription) {
       // Populate form for editing
       setServiceName(subscription.serviceName);
       setServiceIcon(subscription.serviceIcon || '💳');
-      setAmount(String(subscription.amount));
+      setCategory(SubscriptionCalculator.getCategory(subscription));
+      setCategoryPicked(true);
+      setCatalogId(subscription.catalogId);
+      setCatalogPlanId(subscription.catalogPlanId);
+      setTags((subscription.tags ?? []).join(', '));
+      setAmount(String(toMajor(subscription.amount)));
+      setTaxRate(subscription.taxRate ? String(subscription.taxRate) : '');
+      const [fee] = subscription.fees ?? [];
+      setFeeType(fee?.type ?? 'percent');
+      setFeeValue(fee ? String(fee.type === 'percent' ? fee.value : toMajor(fee.amount)) : '');
       setSelectedCurrency(subscription.currency);
       setBillingDate(String(subscription.billingDate));
-      setFrequency(subscription.frequency);
-      setCustomDays(String(subscription.customFrequencyDays || ''));
+      setStartDate(subscription.startDate);
+      setMonthEndPolicy(subscription.monthEndPolicy || 'clamp');
+      setRecurrenceInterval(String(subscription.recurrence.interval));
+      setRecurrenceUnit(subscription.recurrence.unit);
+      setCustomRecurrence(!isPresetRecurrence(subscription.recurrence));
       setPaymentMethod(subscription.paymentMethod?.name || '');
       setIsOneTime(subscription.isOneTime);
       setCycleLimit(String(subscription.cycleLimit || ''));
+      setHasContract(!!subscription.contract);
+      setTermEndDate(subscription.contract?.termEndDate ?? '');
+      setNoticeDays(subscription.contract ? String(subscription.contract.noticeDays) : '');
+      setAutoRenew(subscription.contract?.autoRenew ?? true);
+      setRenewalTerm(subscription.contract?.renewalTerm ?? { interval: 1, unit: 'year' });
+      setHasTrial(!!(subscription.trialDays || subscription.trialEndDate));
+      setTrialDays(String(subscription.trialDays || ''));
+      setTrialEndDate(subscription.trialEndDate ?? '');
+      setPostTrialAmount(subscription.postTrialAmount ? String(toMajor(subscription.postTrialAmount)) : '');
+      const [alternative] = subscription.alternativePlans ?? [];
+      setAltAmount(alternative ? String(toMajor(alternative.amount)) : '');
+      setAltRecurrence(alternative?.recurrence ?? { interval: 1, unit: 'year' });
+      setIsSplit(SubscriptionCalculator.isSplit(subscription));
+      setMembers((subscription.members ?? []).map(toMemberDraft));
+      const activePause = SubscriptionCalculator.getActivePause(subscription);
+      setIsPaused(!!activePause);
+      setResumeDate(activePause ? activePause.resumeDate : '');
+      setIsChangingPlan(false);
+      setPlanAmount('');
+      setPlanChangeDate(today());
+      setIsCancelled(!!subscription.paidThroughDate);
+      setPaidThroughDate(subscription.paidThroughDate ?? '');
       setReminderEnabled(subscription.reminderEnabled);
       setReminderDays(String(subscription.reminderDaysBefore));
       setNotes(subscription.notes || '');
@@ -79,14 +275,45 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
   const resetForm = () => {
     setServiceName('');
     setServiceIcon('💳');
+    setCategory('other');
+    setCategoryPicked(false);
+    setCatalogId(undefined);
+    setCatalogPlanId(undefined);
+    setTags('');
     setAmount('');
+    setTaxRate('');
+    setFeeType('percent');
+    setFeeValue('');
     setSelectedCurrency(currency || 'INR');
     setBillingDate('1');
-    setFrequency('monthly');
-    setCustomDays('');
+    setStartDate(today());
+    setMonthEndPolicy('clamp');
+    setRecurrenceInterval('1');
+    setRecurrenceUnit('month');
+    setCustomRecurrence(false);
     setPaymentMethod('');
     setIsOneTime(false);
     setCycleLimit('');
+    setHasContract(false);
+    setTermEndDate('');
+    setNoticeDays('');
+    setAutoRenew(true);
+    setRenewalTerm({ interval: 1, unit: 'year' });
+    setHasTrial(false);
+    setTrialDays('');
+    setTrialEndDate('');
+    setPostTrialAmount('');
+    setAltAmount('');
+    setAltRecurrence({ interval: 1, unit: 'year' });
+    setIsSplit(false);
+    setMembers([]);
+    setIsPaused(false);
+    setResumeDate('');
+    setIsChangingPlan(false);
+    setPlanAmount('');
+    setPlanChangeDate(today());
+    setIsCancelled(false);
+    setPaidThroughDate('');
     setReminderEnabled(true);
     setReminderDays(String(defaultReminderDays || 3));
     setNotes('');
@@ -102,18 +329,96 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
       Alert.alert('Error', 'Please enter a valid amount');
       return;
     }
-    if (!billingDate || parseInt(billingDate) < 1 || parseInt(billingDate) > 31) {
+    if (!billingDate || parseInt(billingDate, 10) < 1 || parseInt(billingDate, 10) > 31) {
       Alert.alert('Error', 'Please enter a valid billing date (1-31)');
       return;
     }
-    if (frequency === 'custom' && (!customDays || parseInt(customDays) <= 0)) {
-      Alert.alert('Error', 'Please enter valid custom frequency days');
+    if (!isCalendarDate(startDate.trim())) {
+      Alert.alert('Error', 'Please enter a valid start date (YYYY-MM-DD)');
+      return;
+    }
+    if (!recurrenceInterval || parseInt(recurrenceInterval, 10) <= 0) {
+      Alert.alert('Error', 'Please enter how often it repeats');
       return;
     }
-    if (isOneTime && (!cycleLimit || parseInt(cycleLimit) <= 0)) {
+    if (isOneTime && (!cycleLimit || parseInt(cycleLimit, 10) <= 0)) {
       Alert.alert('Error', 'Please enter valid cycle limit');
       return;
     }
+    if (hasContract && !isCalendarDate(termEndDate.trim())) {
+      Alert.alert('Error', 'Please enter a valid contract end date (YYYY-MM-DD)');
+      return;
+    }
+    if (hasContract && noticeDays && parseInt(noticeDays, 10) < 0) {
+      Alert.alert('Error', 'Please enter a valid notice period in days');
+      return;
+    }
+
+    if (hasTrial && trialEndDate.trim()) {
+      if (
+        !isCalendarDate(trialEndDate.trim()) ||
+        parseCalendarDate(trialEndDate.trim()) <= parseCalendarDate(startDate.trim())
+      ) {
+        Alert.alert('Error', 'Please enter a trial end date after the start date (YYYY-MM-DD)');
+        return;
+      }
+    } else if (hasTrial && (!trialDays || parseInt(trialDays, 10) <= 0)) {
+      Alert.alert('Error', 'Please enter the trial length in days or its end date');
+      return;
+    }
+    if (hasTrial && postTrialAmount && parseFloat(postTrialAmount) <= 0) {
+      Alert.alert('Error', 'Please enter a valid price after trial');
+      return;
+    }
+
+    const trimmedResumeDate = resumeDate.trim();
+    const parsedResumeDate = isPaused && isCalendarDate(trimmedResumeDate)
+      ? parseCalendarDate(trimmedResumeDate)
+      : null;
+    if (isPaused && (!parsedResumeDate || parsedResumeDate <= new Date())) {
+      Alert.alert('Error', 'Please enter a future resume date (YYYY-MM-DD)');
+      return;
+    }
+
+    if (isChangingPlan && (!planAmount || parseFloat(planAmount) <= 0)) {
+      Alert.alert('Error', 'Please enter the new plan price');
+      return;
+    }
+    if (isChangingPlan && !isCalendarDate(planChangeDate.trim())) {
+      Alert.alert('Error', 'Please enter when the plan changes (YYYY-MM-DD)');
+      return;
+    }
+
+    const trimmedPaidThrough = paidThroughDate.trim();
+    if (isCancelled && !isCalendarDate(trimmedPaidThrough)) {
+      Alert.alert('Error', 'Please enter the date it is paid through (YYYY-MM-DD)');
+      return;
+    }
+    // Keep the original cancellation day when only the paid-through date changes
+    const cancellation = isCancelled && subscription
+      ? subscription.cancelledOn
+        ? { cancelledOn: subscription.cancelledOn, paidThroughDate: trimmedPaidThrough }
+        : SubscriptionCalculator.cancel(subscription, parseCalendarDate(trimmedPaidThrough))
+      : { cancelledOn: undefined, paidThroughDate: undefined };
+
+    // Keep earlier charges at the old price instead of overwriting it
+    const current = subscription && withCurrency(subscription, selectedCurrency);
+    let priceHistory = current?.priceHistory;
+    const newAmount = fromMajor(
+      isChangingPlan ? parseFloat(planAmount) : parseFloat(amount),
+      selectedCurrency
+    );
+    if (isChangingPlan && current) {
+      priceHistory = SubscriptionCalculator.addPriceChange(
+        current,
+        newAmount,
+        parseCalendarDate(planChangeDate.trim())
+      );
+    } else if (isEditing && current && newAmount.minor !== current.amount.minor) {
+      const effectiveFrom = await askPriceEffectiveDate(current);
+      if (!effectiveFrom) return;
+      priceHistory = SubscriptionCalculator.addPriceChange(current, newAmount, effectiveFrom);
+    }
 
     setIsSubmitting(true);
 
@@ -122,22 +427,71 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
         userId,
         serviceName: serviceName.trim(),
         serviceIcon,
-        amount: parseFloat(amount),
+        category,
+        catalogId,
+        catalogPlanId: catalogId ? catalogPlanId : undefined,
+        tags: SubscriptionCalculator.normalizeTags(tags.split(',')),
+        amount: newAmount,
+        taxRate: parseFloat(taxRate) > 0 ? parseFloat(taxRate) : undefined,
+        fees: parseFloat(feeValue) > 0
+          ? toCardFees(feeType, parseFloat(feeValue), selectedCurrency)
+          : undefined,
+        priceHistory,
+        pauses: subscription
+          ? SubscriptionCalculator.setPause(subscription, parsedResumeDate)
+          : undefined,
+        ...cancellation,
         currency: selectedCurrency,
-        billingDate: parseInt(billingDate),
-        frequency,
-        customFrequencyDays: frequency === 'custom' ? parseInt(customDays) : undefined,
+        billingDate: parseInt(billingDate, 10),
+        monthEndPolicy,
+        recurrence,
+        members: isSplit ? members.map((member) => fromMemberDraft(member, selectedCurrency)) : undefined,
+        alternativePlans: parseFloat(altAmount) > 0
+          ? [{ recurrence: altRecurrence, amount: fromMajor(parseFloat(altAmount), selectedCurrency) }]
+          : undefined,
         paymentMethod: paymentMethod.trim()
           ? { id: Date.now().toString(), name: paymentMethod.trim() }
           : undefined,
-        startDate: subscription?.startDate || new Date(),
+        startDate: startDate.trim(),
+        timeZone: subscription?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
         isOneTime,
-        cycleLimit: isOneTime ? parseInt(cycleLimit) : undefined,
+        cycleLimit: isOneTime ? parseInt(cycleLimit, 10) : undefined,
+        contract: hasContract
+          ? {
+              termEndDate: termEndDate.trim(),
+              autoRenew,
+              renewalTerm,
+              noticeDays: parseInt(noticeDays, 10) || 0,
+            }
+          : undefined,
+        trialDays: hasTrial && !trialEndDate.trim() && trialDays ? parseInt(trialDays, 10) : undefined,
+        trialEndDate: hasTrial && trialEndDate.trim() ? trialEndDate.trim() : undefined,
+        postTrialAmount: hasTrial && postTrialAmount
+          ? fromMajor(parseFloat(postTrialAmount), selectedCurrency)
+          : undefined,
         reminderEnabled,
-        reminderDaysBefore: parseInt(reminderDays),
+        reminderDaysBefore: parseInt(reminderDays, 10),
         notes: notes.trim() || undefined,
       };
 
+      // Compare monthly spend with and without this change
+      const others = subscriptions.filter(
+        (sub) => sub.id !== subscription?.id && SubscriptionCalculator.isActive(sub)
+      );
+      const before = subscription && SubscriptionCalculator.isActive(subscription)
+        ? [...others, subscription]
+        : others;
+      const exceeded = SubscriptionCalculator.getExceededBudgets(
+        before,
+        [...others, { ...subscription, ...data }],
+        { monthlyBudget, categoryBudgets },
+        currency || 'INR',
+        rates
+      );
+      if (exceeded.length > 0 && !(await confirmOverBudget(exceeded))) {
+        return;
+      }
+
       if (isEditing && subscription) {
         await updateSubscription(subscription.id, data);
       } else {
@@ -159,11 +513,128 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
     }
   };
 
-  const handleServiceSelect = (service: typeof POPULAR_SERVICES[number]) => {
+  const handleStartDateChange = (text: string) => {
+    setStartDate(text);
+    // Charges usually land on the same day of month the plan started
+    if (isCalendarDate(text.trim())) {
+      setBillingDate(String(parseCalendarDate(text.trim()).getDate()));
+    }
+  };
+
+  const handleServiceNameChange = (text: string) => {
+    setServiceName(text);
+    // Typing a catalog name (or alias) links the service; anything else unlinks it
+    const match = ServiceDirectory.find(text);
+    if (match?.id !== catalogId) {
+      setCatalogId(match?.id);
+      setCatalogPlanId(undefined);
+    }
+    if (!categoryPicked) {
+      setCategory(SubscriptionCalculator.getDefaultCategory(text));
+    }
+  };
+
+  // Fill in the plan's price (in the selected currency) and billing cycle
+  const handlePlanSelect = (plan: CatalogPlan) => {
+    const price = ServiceDirectory.getPrice(plan, selectedCurrency);
+    if (price) {
+      setAmount(String(toMajor(price)));
+    }
+    setRecurrenceInterval(String(plan.recurrence.interval));
+    setRecurrenceUnit(plan.recurrence.unit);
+    setCustomRecurrence(!isPresetRecurrence(plan.recurrence));
+    setCatalogPlanId(plan.id);
+  };
+
+  const handleServiceSelect = (service: CatalogService) => {
     setServiceName(service.name);
     setServiceIcon(service.icon);
+    setCategory(service.category);
+    setCatalogId(service.id);
+    setCatalogPlanId(undefined);
+    const plan = ServiceDirectory.getDefaultPlan(service, selectedCurrency);
+    if (plan) {
+      handlePlanSelect(plan);
+    }
+  };
+
+  const catalogService = catalogId ? ServiceDirectory.getService(catalogId) : null;
+  const catalogPlans = catalogService
+    ? catalogService.plans.filter((plan) => ServiceDirectory.getPrice(plan, selectedCurrency))
+    : [];
+  // Suggestions while typing a name that isn't linked to the catalog yet
+  const serviceSuggestions = catalogService ? [] : ServiceDirectory.search(serviceName);
+
+  const handleCategorySelect = (value: SubscriptionCategory) => {
+    setCategory(value);
+    setCategoryPicked(true);
+  };
+
+  // What switching to the new plan costs now and at the next charge
+  const proration = (() => {
+    if (!subscription || !isChangingPlan || !(parseFloat(planAmount) > 0)) return null;
+    if (!isCalendarDate(planChangeDate.trim())) return null;
+    const changeDate = parseCalendarDate(planChangeDate.trim());
+    const current = withCurrency(subscription, selectedCurrency);
+    return SubscriptionCalculator.getProration(
+      current,
+      SubscriptionCalculator.getChargeAmount(current, changeDate),
+      fromMajor(parseFloat(planAmount), selectedCurrency),
+      changeDate
+    );
+  })();
+
+  const handleToggleCancelled = () => {
+    if (!isCancelled && subscription && !paidThroughDate) {
+      setPaidThroughDate(toCalendarDate(SubscriptionCalculator.getDefaultPaidThroughDate(subscription)));
+    }
+    setIsCancelled(!isCancelled);
+  };
+
+  const handleRecurrencePreset = (preset: Recurrence) => {
+    setRecurrenceInterval(String(preset.interval));
+    setRecurrenceUnit(preset.unit);
+    setCustomRecurrence(false);
   };
 
+  // What one charge comes to with the tax and fee entered above
+  const chargePreview = SubscriptionCalculator.getChargeBreakdown(
+    {
+      taxRate: parseFloat(taxRate) || 0,
+      fees: toCardFees(feeType, parseFloat(feeValue), selectedCurrency),
+    } as Subscription,
+    fromMajor(parseFloat(amount) || 0, selectedCurrency)
+  );
+
+  const handleToggleSplit = () => {
+    if (!isSplit && members.length === 0) {
+      // The user is always one of the members
+      setMembers([
+        { id: 'me', name: 'Me', isMe: true, mode: 'share', value: '1' },
+        { id: Date.now().toString(), name: '', mode: 'share', value: '1' },
+      ]);
+    }
+    setIsSplit(!isSplit);
+  };
+
+  const updateMember = (id: string, updates: Partial<MemberDraft>) => {
+    setMembers(members.map((member) => (member.id === id ? { ...member, ...updates } : member)));
+  };
+
+  // Live preview of who owes what; when editing, for the charge that opened this cycle
+  const splitPreview = (() => {
+    if (!isSplit) return null;
+    const draft = {
+      ...(subscription && withCurrency(subscription, selectedCurrency)),
+      members: members.map((member) => fromMemberDraft(member, selectedCurrency)),
+    } as Subscription;
+    if (subscription) {
+      return SubscriptionCalculator.getCurrentCycleBreakdown(draft);
+    }
+    const total = chargePreview.total;
+    return { chargeDate: null, total, shares: SubscriptionCalculator.getSplitBreakdown(draft, total) };
+  })();
+
   return (
     <Modal
       visible={visible}
@@ -196,9 +667,9 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Popular Services</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                {POPULAR_SERVICES.map((service, index) => (
+                {ServiceDirectory.getServices().map((service) => (
                   <TouchableOpacity
-                    key={index}
+                    key={service.id}
                     style={styles.serviceChip}
                     onPress={() => handleServiceSelect(service)}
                   >
@@ -223,11 +694,90 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
               <TextInput
                 style={styles.textInput}
                 value={serviceName}
-                onChangeText={setServiceName}
+                onChangeText={handleServiceNameChange}
                 placeholder="e.g., Netflix"
                 placeholderTextColor="#999"
               />
             </View>
+            {serviceSuggestions.length > 0 && (
+              <View style={styles.suggestionList}>
+                {serviceSuggestions.map((service) => (
+                  <TouchableOpacity
+                    key={service.id}
+                    style={[styles.suggestionRow, { borderLeftColor: service.brandColor }]}
+                    onPress={() => handleServiceSelect(service)}
+                  >
+                    <Text style={styles.suggestionIcon}>{service.icon}</Text>
+                    <Text style={styles.suggestionName}>{service.name}</Text>
+                    <Text style={styles.suggestionDetail}>
+                      {SUBSCRIPTION_CATEGORIES.find((c) => c.value === service.category)?.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+
+          {/* Catalog Plans */}
+          {catalogPlans.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.label}>{catalogService!.name} Plans</Text>
+              <View style={styles.frequencyContainer}>
+                {catalogPlans.map((plan) => {
+                  const isActive = catalogPlanId === plan.id;
+                  return (
+                    <TouchableOpacity
+                      key={plan.id}
+                      style={[styles.frequencyChip, isActive && styles.frequencyChipActive]}
+                      onPress={() => handlePlanSelect(plan)}
+                    >
+                      <Text style={[styles.frequencyText, isActive && styles.frequencyTextActive]}>
+                        {plan.label} • {SubscriptionCalculator.formatCurrency(ServiceDirectory.getPrice(plan, selectedCurrency)!)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {/* Category */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Category</Text>
+            <View style={styles.frequencyContainer}>
+              {SUBSCRIPTION_CATEGORIES.map((item) => (
+                <TouchableOpacity
+                  key={item.value}
+                  style={[
+                    styles.frequencyChip,
+                    category === item.value && styles.frequencyChipActive,
+                  ]}
+                  onPress={() => handleCategorySelect(item.value)}
+                >
+                  <Text
+                    style={[
+                      styles.frequencyText,
+                      category === item.value && styles.frequencyTextActive,
+                    ]}
+                  >
+                    {item.icon} {item.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Tags */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Tags</Text>
+            <TextInput
+              style={styles.textInput}
+              value={tags}
+              onChangeText={setTags}
+              placeholder="e.g., work, family (comma separated)"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+            />
           </View>
 
           {/* Amount & Currency */}
@@ -235,19 +785,72 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             <Text style={styles.label}>Billing Amount *</Text>
             <View style={styles.inputRow}>
               <TextInput
-                style={[styles.textInput, { flex: 2 }]}
+                style={[styles.textInput, styles.wideInput]}
                 value={amount}
                 onChangeText={setAmount}
                 placeholder="0.00"
                 placeholderTextColor="#999"
                 keyboardType="decimal-pad"
               />
-              <View style={styles.picker}>
-                <Text>{selectedCurrency}</Text>
-              </View>
+              <TouchableOpacity style={styles.picker} onPress={() => setShowCurrencyPicker(true)}>
+                <Text>{selectedCurrency} ▾</Text>
+              </TouchableOpacity>
             </View>
           </View>
 
+          {/* Tax & Fees */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Tax & Fees</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.textInput}
+                value={taxRate}
+                onChangeText={setTaxRate}
+                placeholder="Tax % (e.g., 18 GST)"
+                placeholderTextColor="#999"
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={styles.textInput}
+                value={feeValue}
+                onChangeText={setFeeValue}
+                placeholder={feeType === 'percent' ? 'Card fee %' : 'Card fee'}
+                placeholderTextColor="#999"
+                keyboardType="decimal-pad"
+              />
+              <TouchableOpacity
+                style={styles.picker}
+                onPress={() => setFeeType(feeType === 'percent' ? 'fixed' : 'percent')}
+              >
+                <Text>{feeType === 'percent' ? '%' : selectedCurrency}</Text>
+              </TouchableOpacity>
+            </View>
+            {!isZero(add(chargePreview.tax, chargePreview.fees)) && (
+              <Text style={styles.chargePreview}>
+                {SubscriptionCalculator.formatCurrency(chargePreview.base)}
+                {' + '}
+                {SubscriptionCalculator.formatCurrency(chargePreview.tax)} tax
+                {' + '}
+                {SubscriptionCalculator.formatCurrency(chargePreview.fees)} fees
+                {' = '}
+                {SubscriptionCalculator.formatCurrency(chargePreview.total)} per charge
+              </Text>
+            )}
+          </View>
+
+          {/* Start Date */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Start Date *</Text>
+            <TextInput
+              style={styles.textInput}
+              value={startDate}
+              onChangeText={handleStartDateChange}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor="#999"
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+
           {/* Billing Date */}
           <View style={styles.section}>
             <Text style={styles.label}>Billing Date (Day of Month) *</Text>
@@ -259,41 +862,95 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
               placeholderTextColor="#999"
               keyboardType="number-pad"
             />
+            {/* Only days past the 28th can fall off the end of a month */}
+            {SubscriptionCalculator.isCalendarMonthBased(recurrence) && parseInt(billingDate, 10) > 28 && (
+              <View style={[styles.frequencyContainer, styles.spaced]}>
+                {MONTH_END_POLICIES.map((policy) => (
+                  <TouchableOpacity
+                    key={policy.value}
+                    style={[
+                      styles.frequencyChip,
+                      monthEndPolicy === policy.value && styles.frequencyChipActive,
+                    ]}
+                    onPress={() => setMonthEndPolicy(policy.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.frequencyText,
+                        monthEndPolicy === policy.value && styles.frequencyTextActive,
+                      ]}
+                    >
+                      {policy.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
           </View>
 
           {/* Frequency */}
           <View style={styles.section}>
             <Text style={styles.label}>Frequency *</Text>
             <View style={styles.frequencyContainer}>
-              {(['monthly', 'quarterly', 'half-yearly', 'yearly', 'custom'] as BillingFrequency[]).map((freq) => (
-                <TouchableOpacity
-                  key={freq}
-                  style={[
-                    styles.frequencyChip,
-                    frequency === freq && styles.frequencyChipActive,
-                  ]}
-                  onPress={() => setFrequency(freq)}
-                >
-                  <Text
-                    style={[
-                      styles.frequencyText,
-                      frequency === freq && styles.frequencyTextActive,
-                    ]}
+              {RECURRENCE_PRESETS.map((preset) => {
+                const isActive =
+                  !customRecurrence && SubscriptionCalculator.isSameRecurrence(preset.recurrence, recurrence);
+                return (
+                  <TouchableOpacity
+                    key={preset.label}
+                    style={[styles.frequencyChip, isActive && styles.frequencyChipActive]}
+                    onPress={() => handleRecurrencePreset(preset.recurrence)}
                   >
-                    {freq.replace('-', ' ')}
-                  </Text>
-                </TouchableOpacity>
-              ))}
+                    <Text style={[styles.frequencyText, isActive && styles.frequencyTextActive]}>
+                      {preset.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity
+                style={[styles.frequencyChip, customRecurrence && styles.frequencyChipActive]}
+                onPress={() => setCustomRecurrence(true)}
+              >
+                <Text style={[styles.frequencyText, customRecurrence && styles.frequencyTextActive]}>
+                  Custom
+                </Text>
+              </TouchableOpacity>
             </View>
-            {frequency === 'custom' && (
-              <TextInput
-                style={[styles.textInput, { marginTop: 12 }]}
-                value={customDays}
-                onChangeText={setCustomDays}
-                placeholder="Enter days"
-                placeholderTextColor="#999"
-                keyboardType="number-pad"
-              />
+            {customRecurrence && (
+              <>
+                <TextInput
+                  style={[styles.textInput, styles.spaced]}
+                  value={recurrenceInterval}
+                  onChangeText={setRecurrenceInterval}
+                  placeholder="Repeats every..."
+                  placeholderTextColor="#999"
+                  keyboardType="number-pad"
+                />
+                <View style={[styles.frequencyContainer, styles.spaced]}>
+                  {RECURRENCE_UNITS.map((unit) => (
+                    <TouchableOpacity
+                      key={unit.value}
+                      style={[
+                        styles.frequencyChip,
+                        recurrenceUnit === unit.value && styles.frequencyChipActive,
+                      ]}
+                      onPress={() => setRecurrenceUnit(unit.value)}
+                    >
+                      <Text
+                        style={[
+                          styles.frequencyText,
+                          recurrenceUnit === unit.value && styles.frequencyTextActive,
+                        ]}
+                      >
+                        {unit.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {parseInt(recurrenceInterval, 10) > 0 && (
+                  <Text style={styles.chargePreview}>{SubscriptionCalculator.formatRecurrence(recurrence)}</Text>
+                )}
+              </>
             )}
           </View>
 
@@ -309,6 +966,37 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             />
           </View>
 
+          {/* Alternative Plan */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Other Plan Offered</Text>
+            <TextInput
+              style={styles.textInput}
+              value={altAmount}
+              onChangeText={setAltAmount}
+              placeholder="Price of another plan (optional)"
+              placeholderTextColor="#999"
+              keyboardType="decimal-pad"
+            />
+            {!!altAmount && (
+              <View style={[styles.frequencyContainer, styles.spaced]}>
+                {RECURRENCE_PRESETS.map((preset) => {
+                  const isActive = SubscriptionCalculator.isSameRecurrence(preset.recurrence, altRecurrence);
+                  return (
+                    <TouchableOpacity
+                      key={preset.label}
+                      style={[styles.frequencyChip, isActive && styles.frequencyChipActive]}
+                      onPress={() => setAltRecurrence(preset.recurrence)}
+                    >
+                      <Text style={[styles.frequencyText, isActive && styles.frequencyTextActive]}>
+                        {preset.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+
           {/* One-Time Subscription */}
           <View style={styles.section}>
             <TouchableOpacity
@@ -322,7 +1010,7 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             </TouchableOpacity>
             {isOneTime && (
               <TextInput
-                style={[styles.textInput, { marginTop: 12 }]}
+                style={[styles.textInput, styles.spaced]}
                 value={cycleLimit}
                 onChangeText={setCycleLimit}
                 placeholder="Number of cycles (e.g., 6 for 6 months)"
@@ -332,6 +1020,314 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             )}
           </View>
 
+          {/* Fixed-Term Contract */}
+          <View style={styles.section}>
+            <TouchableOpacity
+              style={styles.checkboxRow}
+              onPress={() => setHasContract(!hasContract)}
+            >
+              <View style={[styles.checkbox, hasContract && styles.checkboxActive]}>
+                {hasContract && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+              <Text style={styles.checkboxLabel}>Fixed-Term Contract</Text>
+            </TouchableOpacity>
+            {hasContract && (
+              <>
+                <View style={[styles.inputRow, styles.spaced]}>
+                  <TextInput
+                    style={[styles.textInput, styles.wideInput]}
+                    value={termEndDate}
+                    onChangeText={setTermEndDate}
+                    placeholder="Term ends (YYYY-MM-DD)"
+                    placeholderTextColor="#999"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                  <TextInput
+                    style={styles.textInput}
+                    value={noticeDays}
+                    onChangeText={setNoticeDays}
+                    placeholder="Notice (days)"
+                    placeholderTextColor="#999"
+                    keyboardType="number-pad"
+                  />
+                </View>
+                <TouchableOpacity
+                  style={[styles.checkboxRow, styles.spaced]}
+                  onPress={() => setAutoRenew(!autoRenew)}
+                >
+                  <View style={[styles.checkbox, autoRenew && styles.checkboxActive]}>
+                    {autoRenew && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <Text style={styles.checkboxLabel}>Renews automatically</Text>
+                </TouchableOpacity>
+                {autoRenew && (
+                  <View style={[styles.frequencyContainer, styles.spaced]}>
+                    {RECURRENCE_PRESETS.filter((preset) =>
+                      SubscriptionCalculator.isCalendarMonthBased(preset.recurrence)
+                    ).map((preset) => {
+                      const isActive = SubscriptionCalculator.isSameRecurrence(preset.recurrence, renewalTerm);
+                      return (
+                        <TouchableOpacity
+                          key={preset.label}
+                          style={[styles.frequencyChip, isActive && styles.frequencyChipActive]}
+                          onPress={() => setRenewalTerm(preset.recurrence)}
+                        >
+                          <Text style={[styles.frequencyText, isActive && styles.frequencyTextActive]}>
+                            Renews {preset.label.toLowerCase()}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+
+          {/* Split Cost */}
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.checkboxRow} onPress={handleToggleSplit}>
+              <View style={[styles.checkbox, isSplit && styles.checkboxActive]}>
+                {isSplit && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+              <Text style={styles.checkboxLabel}>Split Cost with Others</Text>
+            </TouchableOpacity>
+            {isSplit && (
+              <>
+                {members.map((member) => (
+                  <View key={member.id} style={[styles.inputRow, styles.spaced]}>
+                    <TextInput
+                      style={styles.textInput}
+                      value={member.name}
+                      onChangeText={(text) => updateMember(member.id, { name: text })}
+                      placeholder={member.isMe ? 'Me' : 'Name'}
+                      placeholderTextColor="#999"
+                    />
+                    <TouchableOpacity
+                      style={styles.picker}
+                      onPress={() =>
+                        updateMember(member.id, { mode: member.mode === 'share' ? 'fixed' : 'share' })
+                      }
+                    >
+                      <Text>{member.mode === 'share' ? 'Share' : 'Fixed'}</Text>
+                    </TouchableOpacity>
+                    <TextInput
+                      style={[styles.textInput, styles.memberValue]}
+                      value={member.value}
+                      onChangeText={(text) => updateMember(member.id, { value: text })}
+                      keyboardType="decimal-pad"
+                    />
+                    {!member.isMe && (
+                      <TouchableOpacity
+                        style={styles.removeMember}
+                        onPress={() => setMembers(members.filter((m) => m.id !== member.id))}
+                      >
+                        <Text style={styles.removeMemberText}>✕</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+                <TouchableOpacity
+                  onPress={() =>
+                    setMembers([
+                      ...members,
+                      { id: Date.now().toString(), name: '', mode: 'share', value: '1' },
+                    ])
+                  }
+                >
+                  <Text style={styles.addMember}>+ Add Member</Text>
+                </TouchableOpacity>
+                {splitPreview && (
+                  <View style={styles.splitPreview}>
+                    <Text style={styles.splitPreviewTitle}>
+                      {splitPreview.chargeDate
+                        ? `This cycle (${splitPreview.chargeDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})`
+                        : 'Each charge'}
+                    </Text>
+                    {splitPreview.shares.map(({ member, amount: owed }) => (
+                      <View key={member.id} style={styles.splitPreviewRow}>
+                        <Text style={styles.splitPreviewName}>{member.name}</Text>
+                        <Text style={styles.splitPreviewAmount}>
+                          {SubscriptionCalculator.formatCurrency(owed)}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+
+          {/* Free Trial */}
+          <View style={styles.section}>
+            <TouchableOpacity
+              style={styles.checkboxRow}
+              onPress={() => setHasTrial(!hasTrial)}
+            >
+              <View style={[styles.checkbox, hasTrial && styles.checkboxActive]}>
+                {hasTrial && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+              <Text style={styles.checkboxLabel}>Starts with a Free Trial</Text>
+            </TouchableOpacity>
+            {hasTrial && (
+              <>
+                {/* Either a length or an end date; entering one clears the other */}
+                <View style={[styles.inputRow, styles.spaced]}>
+                  <TextInput
+                    style={styles.textInput}
+                    value={trialDays}
+                    onChangeText={(text) => {
+                      setTrialDays(text);
+                      if (text) setTrialEndDate('');
+                    }}
+                    placeholder="Length (days)"
+                    placeholderTextColor="#999"
+                    keyboardType="number-pad"
+                  />
+                  <TextInput
+                    style={[styles.textInput, styles.wideInput]}
+                    value={trialEndDate}
+                    onChangeText={(text) => {
+                      setTrialEndDate(text);
+                      if (text) setTrialDays('');
+                    }}
+                    placeholder="or ends on (YYYY-MM-DD)"
+                    placeholderTextColor="#999"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                </View>
+                <TextInput
+                  style={[styles.textInput, styles.spaced]}
+                  value={postTrialAmount}
+                  onChangeText={setPostTrialAmount}
+                  placeholder="Price after trial (defaults to billing amount)"
+                  placeholderTextColor="#999"
+                  keyboardType="decimal-pad"
+                />
+              </>
+            )}
+          </View>
+
+          {/* Change Plan */}
+          {isEditing && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setIsChangingPlan(!isChangingPlan)}
+              >
+                <View style={[styles.checkbox, isChangingPlan && styles.checkboxActive]}>
+                  {isChangingPlan && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                <Text style={styles.checkboxLabel}>Change Plan (Upgrade / Downgrade)</Text>
+              </TouchableOpacity>
+              {isChangingPlan && (
+                <>
+                  <View style={[styles.inputRow, styles.spaced]}>
+                    <TextInput
+                      style={styles.textInput}
+                      value={planAmount}
+                      onChangeText={setPlanAmount}
+                      placeholder="New price"
+                      placeholderTextColor="#999"
+                      keyboardType="decimal-pad"
+                    />
+                    <TextInput
+                      style={styles.textInput}
+                      value={planChangeDate}
+                      onChangeText={setPlanChangeDate}
+                      placeholder="From (YYYY-MM-DD)"
+                      placeholderTextColor="#999"
+                      keyboardType="numbers-and-punctuation"
+                    />
+                  </View>
+                  {proration && (
+                    <View style={styles.splitPreview}>
+                      <Text style={styles.splitPreviewTitle}>
+                        {proration.cycleStart
+                          ? `${Math.round(proration.remainingFraction * 100)}% of this cycle left`
+                          : 'No charge yet this cycle'}
+                      </Text>
+                      {[
+                        { label: 'Credit for old plan', value: negate(proration.credit) },
+                        { label: 'New plan for rest of cycle', value: proration.extraCharge },
+                        { label: 'Due now', value: proration.amountDue },
+                      ].map((line) => (
+                        <View key={line.label} style={styles.splitPreviewRow}>
+                          <Text style={styles.splitPreviewName}>{line.label}</Text>
+                          <Text style={styles.splitPreviewAmount}>
+                            {SubscriptionCalculator.formatCurrency(line.value)}
+                          </Text>
+                        </View>
+                      ))}
+                      {proration.nextChargeDate && (
+                        <View style={styles.splitPreviewRow}>
+                          <Text style={styles.splitPreviewName}>
+                            Next charge ({proration.nextChargeDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})
+                          </Text>
+                          <Text style={styles.splitPreviewAmount}>
+                            {SubscriptionCalculator.formatCurrency(proration.nextCharge)}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Pause Billing */}
+          {isEditing && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                style={styles.checkboxRow}
+                onPress={() => setIsPaused(!isPaused)}
+              >
+                <View style={[styles.checkbox, isPaused && styles.checkboxActive]}>
+                  {isPaused && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                <Text style={styles.checkboxLabel}>Pause Billing</Text>
+              </TouchableOpacity>
+              {isPaused && (
+                <TextInput
+                  style={[styles.textInput, styles.spaced]}
+                  value={resumeDate}
+                  onChangeText={setResumeDate}
+                  placeholder="Resume on (YYYY-MM-DD)"
+                  placeholderTextColor="#999"
+                  keyboardType="numbers-and-punctuation"
+                />
+              )}
+            </View>
+          )}
+
+          {/* Cancellation */}
+          {isEditing && (
+            <View style={styles.section}>
+              <TouchableOpacity style={styles.checkboxRow} onPress={handleToggleCancelled}>
+                <View style={[styles.checkbox, isCancelled && styles.checkboxActive]}>
+                  {isCancelled && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                <Text style={styles.checkboxLabel}>Cancelled</Text>
+              </TouchableOpacity>
+              {isCancelled && (
+                <>
+                  <TextInput
+                    style={[styles.textInput, styles.spaced]}
+                    value={paidThroughDate}
+                    onChangeText={setPaidThroughDate}
+                    placeholder="Paid through (YYYY-MM-DD)"
+                    placeholderTextColor="#999"
+                    keyboardType="numbers-and-punctuation"
+                  />
+                  <Text style={styles.chargePreview}>
+                    No more charges after this date; it moves to Ended the day after
+                  </Text>
+                </>
+              )}
+            </View>
+          )}
+
           {/* Reminders */}
           <View style={styles.section}>
             <TouchableOpacity
@@ -345,7 +1341,7 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             </TouchableOpacity>
             {reminderEnabled && (
               <TextInput
-                style={[styles.textInput, { marginTop: 12 }]}
+                style={[styles.textInput, styles.spaced]}
                 value={reminderDays}
                 onChangeText={setReminderDays}
                 placeholder="Days before billing"
@@ -369,8 +1365,15 @@ export const SubscriptionForm: React.FC<SubscriptionFormProps> = ({
             />
           </View>
 
-          <View style={{ height: 40 }} />
+          <View style={styles.bottomSpacer} />
         </ScrollView>
+
+        <CurrencyPicker
+          visible={showCurrencyPicker}
+          selected={selectedCurrency}
+          onSelect={setSelectedCurrency}
+          onClose={() => setShowCurrencyPicker(false)}
+        />
       </KeyboardAvoidingView>
     </Modal>
   );
@@ -430,6 +1433,15 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 12,
   },
+  spaced: {
+    marginTop: 12,
+  },
+  wideInput: {
+    flex: 2,
+  },
+  bottomSpacer: {
+    height: 40,
+  },
   iconInput: {
     width: 56,
     height: 56,
@@ -485,6 +1497,36 @@ const styles = StyleSheet.create({
     color: '#666666',
     textAlign: 'center',
   },
+  suggestionList: {
+    marginTop: 8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    overflow: 'hidden',
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderLeftWidth: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F8F9FA',
+  },
+  suggestionIcon: {
+    fontSize: 20,
+    marginRight: 10,
+  },
+  suggestionName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1A1A1A',
+  },
+  suggestionDetail: {
+    fontSize: 12,
+    color: '#999999',
+  },
   frequencyContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -538,5 +1580,52 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#1A1A1A',
   },
+  chargePreview: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 8,
+  },
+  memberValue: {
+    flex: 0,
+    width: 80,
+  },
+  removeMember: {
+    justifyContent: 'center',
+  },
+  removeMemberText: {
+    fontSize: 16,
+    color: '#FF6B6B',
+  },
+  addMember: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4CAF50',
+    marginTop: 12,
+  },
+  splitPreview: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  splitPreviewTitle: {
+    fontSize: 12,
+    color: '#666666',
+    marginBottom: 8,
+  },
+  splitPreviewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  splitPreviewName: {
+    fontSize: 14,
+    color: '#1A1A1A',
+  },
+  splitPreviewAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
 });
 
@@ -0,0 +1,40 @@
+/**
+ * Unconverted Notice
+ *
+ * Lists subscriptions left out of converted totals because there's no
+ * exchange rate for their currency
+ */
+
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { Subscription } from '@/types/subscription.types';
+import { Currency } from '@/types/currency.types';
+
+interface UnconvertedNoticeProps {
+  subscriptions: Subscription[];
+  currency: Currency;
+  style?: StyleProp<TextStyle>;
+}
+
+export const UnconvertedNotice: React.FC<UnconvertedNoticeProps> = ({
+  subscriptions,
+  currency,
+  style,
+}) => {
+  if (subscriptions.length === 0) return null;
+
+  const names = subscriptions.map((sub) => `${sub.serviceName} (${sub.currency})`).join(', ');
+
+  return (
+    <Text style={[styles.notice, style]}>
+      Not included — no exchange rate to {currency}: {names}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  notice: {
+    fontSize: 12,
+    color: '#E65100',
+  },
+});
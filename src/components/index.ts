@@ -4,4 +4,6 @@
 
 export { SubscriptionCard } from './SubscriptionCard';
 export { SubscriptionForm } from './SubscriptionForm';
+export { CurrencyPicker } from './CurrencyPicker';
+export { UnconvertedNotice } from './UnconvertedNotice';
 
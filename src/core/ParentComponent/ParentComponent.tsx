@@ -1,12 +1,14 @@
 import { StyleSheet, Text, View } from 'react-native'
 import React from 'react'
 import { useAppState } from '@/hooks/useAppState';
+import { useNotificationActions } from '@/hooks/useNotificationActions';
 
 export interface ParentComponentProps {
   children: React.ReactNode;
 }
 const ParentComponent: React.FC<ParentComponentProps> = ({ children }) => {
   useAppState()
+  useNotificationActions();
   return (
     <>
       {children}
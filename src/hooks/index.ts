@@ -1,4 +1,5 @@
 export { default as useAppState } from './useAppState';
 export { default as useFCM } from './useFCM';
 export { default as useNotifications } from './useNotifications';
-export { useAppLifecycle } from './useAppLifecycle';
\ No newline at end of file
+export { useAppLifecycle } from './useAppLifecycle';
+export { useNotificationActions } from './useNotificationActions';
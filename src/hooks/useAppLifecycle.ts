@@ -6,14 +6,15 @@
 
 import { useEffect } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import { useSubscriptionStore } from '@/store';
-import { NotificationScheduler } from '@/service/business';
+import { useSubscriptionStore, useSettingsStore } from '@/store';
+import { NotificationScheduler, DEFAULT_UNUSED_AFTER_DAYS } from '@/service/business';
 import { logger } from '@/utils/logger';
 
 const MOCK_USER_ID = 'user_demo_123';
 
 export const useAppLifecycle = () => {
   const { subscriptions, syncWithBackend } = useSubscriptionStore();
+  const unusedAfterDays = useSettingsStore((state) => state.unusedAfterDays) ?? DEFAULT_UNUSED_AFTER_DAYS;
 
   useEffect(() => {
     const handleAppStateChange = async (nextAppState: AppStateStatus) => {
@@ -25,7 +26,7 @@ export const useAppLifecycle = () => {
           await syncWithBackend(MOCK_USER_ID);
           
           // Reschedule notifications to ensure they're up to date
-          await NotificationScheduler.rescheduleAll(subscriptions);
+          await NotificationScheduler.rescheduleAll(subscriptions, unusedAfterDays);
         } catch (error) {
           logger.error('useAppLifecycle.handleAppStateChange', error);
         }
@@ -37,13 +38,13 @@ export const useAppLifecycle = () => {
     return () => {
       subscription.remove();
     };
-  }, [subscriptions, syncWithBackend]);
+  }, [subscriptions, syncWithBackend, unusedAfterDays]);
 
   // Initial notification setup
   useEffect(() => {
     const setupNotifications = async () => {
       try {
-        await NotificationScheduler.rescheduleAll(subscriptions);
+        await NotificationScheduler.rescheduleAll(subscriptions, unusedAfterDays);
         logger.info('Initial notification setup complete');
       } catch (error) {
         logger.error('useAppLifecycle.setupNotifications', error);
@@ -51,6 +52,6 @@ export const useAppLifecycle = () => {
     };
 
     setupNotifications();
-  }, [subscriptions]);
+  }, [subscriptions, unusedAfterDays]);
 };
 
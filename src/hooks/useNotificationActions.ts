@@ -0,0 +1,29 @@
+/**
+ * Notification Actions Hook
+ *
+ * Routes notification action buttons to the stores while the app is mounted
+ */
+
+import { useEffect } from 'react';
+import { useSubscriptionStore } from '@/store';
+import { NotificationScheduler, USAGE_CHECK_IN_ACTION } from '@/service/business';
+import type { NotificationActionHandler } from '@/service/business/NotificationScheduler';
+
+/**
+ * "I used it" on a usage notification records a check-in
+ */
+export const handleNotificationAction: NotificationActionHandler = (actionId, subscriptionId) => {
+  if (actionId === USAGE_CHECK_IN_ACTION) {
+    useSubscriptionStore.getState().checkIn(subscriptionId);
+  }
+};
+
+export const useNotificationActions = () => {
+  useEffect(() => {
+    NotificationScheduler.setActionHandler(handleNotificationAction);
+
+    return () => NotificationScheduler.setActionHandler(null);
+  }, []);
+};
+
+export default useNotificationActions;
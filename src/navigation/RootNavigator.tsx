@@ -9,6 +9,9 @@ import HomeScreen from '@/screens/Home/HomeScreen';
 import ProfileScreen from '@/screens/Profile';
 import SettingsScreen from '@/screens/Settings';
 import DashboardScreen from '@/screens/Dashboard';
+import ForecastScreen from '@/screens/Forecast';
+import YearInReviewScreen from '@/screens/YearInReview';
+import CalendarScreen from '@/screens/Calendar';
 import { Platform } from 'react-native';
 import { RootStackScreens } from './types';
 
@@ -32,6 +35,9 @@ const RootNavigator: React.FC = () => {
       <Stack.Screen name={RootStackScreens.Dashboard} component={DashboardScreen} />
       <Stack.Screen name={RootStackScreens.Profile} component={ProfileScreen} />
       <Stack.Screen name={RootStackScreens.Settings} component={SettingsScreen} />
+      <Stack.Screen name={RootStackScreens.Forecast} component={ForecastScreen} />
+      <Stack.Screen name={RootStackScreens.YearInReview} component={YearInReviewScreen} />
+      <Stack.Screen name={RootStackScreens.Calendar} component={CalendarScreen} />
     </Stack.Navigator>
   );
 };
@@ -6,4 +6,7 @@ export enum Routes {
   Dashboard = 'Dashboard',
   Profile = 'Profile',
   Settings = 'Settings',
+  Forecast = 'Forecast',
+  YearInReview = 'YearInReview',
+  Calendar = 'Calendar',
 }
\ No newline at end of file
@@ -8,6 +8,9 @@ export type RootStackParamList = {
   Dashboard: undefined;
   Profile: undefined;
   Settings: undefined;
+  Forecast: undefined;
+  YearInReview: undefined;
+  Calendar: undefined;
 };
 
 export type SplashScreenProps = NativeStackScreenProps<RootStackParamList, 'Splash'>;
@@ -16,6 +19,10 @@ export type SignupScreenProps = NativeStackScreenProps<RootStackParamList, 'Sign
 export type HomeScreenProps = NativeStackScreenProps<RootStackParamList, 'Home'>;
 export type ProfileScreenProps = NativeStackScreenProps<RootStackParamList, 'Profile'>;
 export type SettingsScreenProps = NativeStackScreenProps<RootStackParamList, 'Settings'>;
+export type DashboardScreenProps = NativeStackScreenProps<RootStackParamList, 'Dashboard'>;
+export type ForecastScreenProps = NativeStackScreenProps<RootStackParamList, 'Forecast'>;
+export type YearInReviewScreenProps = NativeStackScreenProps<RootStackParamList, 'YearInReview'>;
+export type CalendarScreenProps = NativeStackScreenProps<RootStackParamList, 'Calendar'>;
 
 declare global {
   namespace ReactNavigation {
@@ -31,4 +38,7 @@ export enum RootStackScreens {
   Dashboard = 'Dashboard',
   Profile = 'Profile',
   Settings = 'Settings',
+  Forecast = 'Forecast',
+  YearInReview = 'YearInReview',
+  Calendar = 'Calendar',
 }
\ No newline at end of file
@@ -0,0 +1,340 @@
+/**
+ * Calendar Screen
+ *
+ * Month grid of charge days with each day's total; tap a day for its charges
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useSubscriptionStore, useSettingsStore, useExchangeRateStore } from '@/store';
+import { SubscriptionCalculator } from '@/service/business';
+import { UnconvertedNotice } from '@/components';
+import { sum } from '@/utils/money';
+import SafeScreen from '@/core/SafeScreen';
+import type { CalendarScreenProps } from '@/navigation/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const CalendarScreen: React.FC = () => {
+  const navigation = useNavigation<CalendarScreenProps['navigation']>();
+  const now = new Date();
+  const [month, setMonth] = useState(new Date(now.getFullYear(), now.getMonth(), 1));
+  const [selectedDay, setSelectedDay] = useState<number | null>(now.getDate());
+
+  const { subscriptions } = useSubscriptionStore();
+  const { currency } = useSettingsStore();
+  const { rates } = useExchangeRateStore();
+  const displayCurrency = currency || 'INR';
+
+  const days = useMemo(
+    () => SubscriptionCalculator.getChargesByDay(subscriptions, month, displayCurrency, rates),
+    [subscriptions, month, displayCurrency, rates]
+  );
+  const unconvertible = SubscriptionCalculator.getUnconvertible(subscriptions, displayCurrency, rates);
+
+  const monthTotal = sum(days.map((day) => day.total), displayCurrency);
+  const byDate = new Map(days.map((day) => [day.date.getDate(), day]));
+  const selected = selectedDay !== null ? byDate.get(selectedDay) : undefined;
+  const isCurrentMonth =
+    month.getFullYear() === now.getFullYear() && month.getMonth() === now.getMonth();
+
+  // Leading blanks up to the month's first weekday, then each day, padded to full weeks
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (number | null)[] = [
+    ...Array(month.getDay()).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, index) => index + 1),
+  ];
+  while (cells.length % 7 !== 0) cells.push(null);
+  const weeks = Array.from({ length: cells.length / 7 }, (_, index) => cells.slice(index * 7, index * 7 + 7));
+
+  const changeMonth = (offset: number) => {
+    const next = new Date(month.getFullYear(), month.getMonth() + offset, 1);
+    setMonth(next);
+    setSelectedDay(
+      next.getFullYear() === now.getFullYear() && next.getMonth() === now.getMonth() ? now.getDate() : null
+    );
+  };
+
+  return (
+    <SafeScreen style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Calendar</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Month Switcher */}
+        <View style={styles.monthSwitcher}>
+          <TouchableOpacity onPress={() => changeMonth(-1)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.monthArrow}>‹</Text>
+          </TouchableOpacity>
+          <View style={styles.monthInfo}>
+            <Text style={styles.monthName}>
+              {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </Text>
+            <Text style={styles.monthTotal}>
+              {SubscriptionCalculator.formatCurrency(monthTotal)} • {days.length}{' '}
+              {days.length === 1 ? 'charge day' : 'charge days'}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => changeMonth(1)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.monthArrow}>›</Text>
+          </TouchableOpacity>
+        </View>
+        <UnconvertedNotice subscriptions={unconvertible} currency={displayCurrency} style={styles.notice} />
+
+        {/* Month Grid */}
+        <View style={styles.grid}>
+          <View style={styles.week}>
+            {WEEKDAYS.map((weekday) => (
+              <Text key={weekday} style={styles.weekday}>
+                {weekday}
+              </Text>
+            ))}
+          </View>
+          {weeks.map((week, weekIndex) => (
+            <View key={weekIndex} style={styles.week}>
+              {week.map((day, dayIndex) => {
+                if (day === null) {
+                  return <View key={dayIndex} style={styles.cell} />;
+                }
+                const charges = byDate.get(day);
+                const isSelected = selectedDay === day;
+                const isToday = isCurrentMonth && day === now.getDate();
+                return (
+                  <TouchableOpacity
+                    key={dayIndex}
+                    style={[
+                      styles.cell,
+                      !!charges && styles.cellWithCharges,
+                      isSelected && styles.cellSelected,
+                    ]}
+                    onPress={() => setSelectedDay(day)}
+                  >
+                    <Text
+                      style={[
+                        styles.dayNumber,
+                        isToday && styles.dayNumberToday,
+                        isSelected && styles.dayTextSelected,
+                      ]}
+                    >
+                      {day}
+                    </Text>
+                    {charges && (
+                      <Text
+                        style={[styles.dayTotal, isSelected && styles.dayTextSelected]}
+                        numberOfLines={1}
+                        adjustsFontSizeToFit
+                      >
+                        {SubscriptionCalculator.formatCurrency(charges.total)}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+
+        {/* Selected Day */}
+        {selectedDay !== null && (
+          <View style={styles.dayCard}>
+            <View style={styles.dayHeader}>
+              <Text style={styles.dayTitle}>
+                {new Date(month.getFullYear(), month.getMonth(), selectedDay).toLocaleDateString('en-US', {
+                  weekday: 'long',
+                  month: 'short',
+                  day: 'numeric',
+                })}
+              </Text>
+              {selected && (
+                <Text style={styles.dayTitle}>{SubscriptionCalculator.formatCurrency(selected.total)}</Text>
+              )}
+            </View>
+            {selected ? (
+              selected.charges.map((charge) => (
+                <View key={charge.subscriptionId} style={styles.chargeRow}>
+                  <Text style={styles.chargeIcon}>{charge.serviceIcon || '💳'}</Text>
+                  <Text style={styles.chargeName}>{charge.serviceName}</Text>
+                  <View style={styles.chargeAmounts}>
+                    <Text style={styles.chargeAmount}>
+                      {SubscriptionCalculator.formatCurrency(charge.convertedAmount)}
+                    </Text>
+                    {charge.amount.currency !== displayCurrency && (
+                      <Text style={styles.chargeOriginal}>
+                        {SubscriptionCalculator.formatCurrency(charge.amount)}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>No charges on this day</Text>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#4CAF50',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  content: {
+    paddingBottom: 40,
+  },
+  monthSwitcher: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  monthArrow: {
+    fontSize: 28,
+    color: '#4CAF50',
+  },
+  monthInfo: {
+    alignItems: 'center',
+  },
+  monthName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  monthTotal: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  notice: {
+    textAlign: 'center',
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  grid: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 8,
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 11,
+    color: '#999999',
+    paddingVertical: 6,
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 0.85,
+    margin: 2,
+    borderRadius: 8,
+    alignItems: 'center',
+    paddingTop: 6,
+  },
+  cellWithCharges: {
+    backgroundColor: '#E8F5E9',
+  },
+  cellSelected: {
+    backgroundColor: '#4CAF50',
+  },
+  dayNumber: {
+    fontSize: 14,
+    color: '#1A1A1A',
+  },
+  dayNumberToday: {
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+  dayTotal: {
+    fontSize: 9,
+    fontWeight: '600',
+    color: '#4CAF50',
+    marginTop: 4,
+    paddingHorizontal: 2,
+  },
+  dayTextSelected: {
+    color: '#FFFFFF',
+  },
+  dayCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  chargeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    marginTop: 8,
+  },
+  chargeIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  chargeName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1A1A1A',
+  },
+  chargeAmounts: {
+    alignItems: 'flex-end',
+  },
+  chargeAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  chargeOriginal: {
+    fontSize: 11,
+    color: '#999999',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,2 @@
+export { CalendarScreen } from './CalendarScreen';
+export { CalendarScreen as default } from './CalendarScreen';
@@ -15,20 +15,36 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { useSubscriptionStore } from '@/store';
-import { SubscriptionCard, SubscriptionForm } from '@/components';
-import { Subscription } from '@/types/subscription.types';
-import { SubscriptionCalculator } from '@/service/business';
+import { useNavigation } from '@react-navigation/native';
+import {
+  useSubscriptionStore,
+  useSettingsStore,
+  useExchangeRateStore,
+  useLedgerStore,
+  useInsightStore,
+} from '@/store';
+import { SubscriptionCard, SubscriptionForm, UnconvertedNotice } from '@/components';
+import { Subscription, SpendView, SUBSCRIPTION_CATEGORIES } from '@/types/subscription.types';
+import {
+  SubscriptionCalculator,
+  SavingsAdvisor,
+  OverlapDetector,
+  UsageTracker,
+} from '@/service/business';
 import { useAppLifecycle } from '@/hooks';
+import { add, isZero, negate, zero } from '@/utils/money';
 import SafeScreen from '@/core/SafeScreen';
+import type { DashboardScreenProps } from '@/navigation/types';
 
 // Mock user ID - replace with actual auth later
 const MOCK_USER_ID = 'user_demo_123';
 
 export const DashboardScreen: React.FC = () => {
+  const navigation = useNavigation<DashboardScreenProps['navigation']>();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedSubscription, setSelectedSubscription] = useState<Subscription | null>(null);
+  const [spendView, setSpendView] = useState<SpendView>('gross');
 
   const {
     subscriptions,
@@ -36,8 +52,14 @@ export const DashboardScreen: React.FC = () => {
     isLoading,
     fetchSubscriptions,
     deleteSubscription,
+    checkIn,
+    archiveSubscription,
     calculateSummary,
   } = useSubscriptionStore();
+  const { currency, monthlyBudget, categoryBudgets, unusedAfterDays } = useSettingsStore();
+  const { rates, isStale: ratesStale, loadRates } = useExchangeRateStore();
+  const { records, fetchRecords, markPaid } = useLedgerStore();
+  const { dismissedInsightIds, dismissInsight } = useInsightStore();
 
   // Handle app lifecycle (sync & notifications)
   // useAppLifecycle();
@@ -46,11 +68,20 @@ export const DashboardScreen: React.FC = () => {
     // Calculate summary on mount to ensure it's always up to date
     // This ensures total monthly spend is recalculated when app restarts
     calculateSummary();
+    loadRates();
+    fetchRecords(MOCK_USER_ID);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    // Totals are converted, so redo them when the currency or rates change
+    calculateSummary();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, rates, monthlyBudget, categoryBudgets]);
+
   const loadData = async () => {
     await fetchSubscriptions(MOCK_USER_ID);
+    await fetchRecords(MOCK_USER_ID);
     calculateSummary();
   };
 
@@ -73,13 +104,41 @@ export const DashboardScreen: React.FC = () => {
     setShowAddModal(true);
   };
 
-  const activeSubscriptions = subscriptions
-    .filter((sub) => SubscriptionCalculator.isActive(sub))
-    .sort((a, b) => 
-      SubscriptionCalculator.getDaysUntilBilling(a) - 
-      SubscriptionCalculator.getDaysUntilBilling(b)
+  const activeSubscriptions = SubscriptionCalculator.sortByNextBilling(
+    subscriptions.filter((sub) => SubscriptionCalculator.isActive(sub))
+  );
+
+  // Finished subscriptions, most recently ended first (archived ones are hidden)
+  const endedSubscriptions = subscriptions
+    .filter((sub) => !sub.isDeleted && SubscriptionCalculator.getStatus(sub) === 'ended')
+    .sort(
+      (a, b) =>
+        SubscriptionCalculator.getEndDate(b)!.getTime() - SubscriptionCalculator.getEndDate(a)!.getTime()
     );
 
+  const insights = OverlapDetector.detect(activeSubscriptions).filter(
+    (insight) => !dismissedInsightIds.includes(insight.id)
+  );
+
+  const unused = UsageTracker.getUnusedSubscriptions(activeSubscriptions, unusedAfterDays);
+
+  const savings = SavingsAdvisor.getTopOpportunities(activeSubscriptions, currency || 'INR', rates);
+
+  // Left out of the totals above for lack of an exchange rate
+  const unconvertible = SubscriptionCalculator.getUnconvertible(activeSubscriptions, currency || 'INR', rates);
+
+  const hasSplits = activeSubscriptions.some((sub) => SubscriptionCalculator.isSplit(sub));
+
+  // Scheduled charges that haven't been recorded in the ledger yet
+  const dueCharges = activeSubscriptions
+    .flatMap((subscription) =>
+      SubscriptionCalculator.getDueCharges(subscription, records).map((date) => ({
+        subscription,
+        date,
+      }))
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
   if (isLoading && subscriptions.length === 0) {
     return (
       <View style={styles.centerContainer}>
@@ -111,12 +170,76 @@ export const DashboardScreen: React.FC = () => {
 
             {/* Summary Card */}
             <View style={styles.summaryCard}>
-              <Text style={styles.summaryLabel}>Total Monthly Spend</Text>
+              <Text style={styles.summaryLabel}>
+                {spendView === 'my-share' ? 'My Monthly Share' : 'Total Monthly Spend'}
+              </Text>
               <Text style={styles.summaryAmount}>
-                {summary
-                  ? SubscriptionCalculator.formatCurrency(summary.totalMonthlySpend, 'INR')
-                  : '₹0.00'}
+                {SubscriptionCalculator.formatCurrency(
+                  (spendView === 'my-share' ? summary?.myMonthlySpend : summary?.totalMonthlySpend) ??
+                    zero(summary?.currency || currency || 'INR')
+                )}
               </Text>
+              {spendView === 'gross' && !!summary?.monthlyBreakdown &&
+                !isZero(add(summary.monthlyBreakdown.tax, summary.monthlyBreakdown.fees)) && (
+                <Text style={styles.ratesNote}>
+                  {SubscriptionCalculator.formatCurrency(summary.monthlyBreakdown.base)} + {SubscriptionCalculator.formatCurrency(summary.monthlyBreakdown.tax)} tax + {SubscriptionCalculator.formatCurrency(summary.monthlyBreakdown.fees)} fees
+                </Text>
+              )}
+              {hasSplits && (
+                <View style={styles.viewToggle}>
+                  {(['gross', 'my-share'] as SpendView[]).map((view) => (
+                    <TouchableOpacity
+                      key={view}
+                      style={[styles.viewOption, spendView === view && styles.viewOptionActive]}
+                      onPress={() => setSpendView(view)}
+                    >
+                      <Text
+                        style={[styles.viewOptionText, spendView === view && styles.viewOptionTextActive]}
+                      >
+                        {view === 'gross' ? 'Gross' : 'My share'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {ratesStale && (
+                <Text style={styles.ratesNote}>
+                  Exchange rates from {new Date(rates.fetchedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} (may be out of date)
+                </Text>
+              )}
+              <UnconvertedNotice
+                subscriptions={unconvertible}
+                currency={currency || 'INR'}
+                style={styles.ratesNote}
+              />
+              {summary?.budget && (
+                <View style={styles.budget}>
+                  <View style={styles.budgetTrack}>
+                    <View
+                      style={[
+                        styles.budgetFill,
+                        summary.budget.isOverBudget && styles.budgetFillOver,
+                        { width: `${Math.min(summary.budget.used.minor / summary.budget.limit.minor, 1) * 100}%` },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.budgetText}>
+                    {summary.budget.isOverBudget
+                      ? `${SubscriptionCalculator.formatCurrency(negate(summary.budget.remaining))} over`
+                      : `${SubscriptionCalculator.formatCurrency(summary.budget.remaining)} left`}
+                    {' of '}
+                    {SubscriptionCalculator.formatCurrency(summary.budget.limit)} budget
+                  </Text>
+                  {summary.categoryBudgets
+                    .filter((categoryBudget) => categoryBudget.isOverBudget)
+                    .map((categoryBudget) => (
+                      <Text key={categoryBudget.category} style={styles.budgetWarning}>
+                        ⚠️ {SUBSCRIPTION_CATEGORIES.find((c) => c.value === categoryBudget.category)?.label} over by{' '}
+                        {SubscriptionCalculator.formatCurrency(negate(categoryBudget.remaining))}
+                      </Text>
+                    ))}
+                </View>
+              )}
               <View style={styles.summaryStats}>
                 <View style={styles.stat}>
                   <Text style={styles.statValue}>
@@ -134,6 +257,141 @@ export const DashboardScreen: React.FC = () => {
               </View>
             </View>
 
+            {/* Duplicate / Overlap Insights */}
+            {insights.map((insight) => (
+              <View key={insight.id} style={styles.insightCard}>
+                <View style={styles.listInfo}>
+                  <Text style={styles.listName}>
+                    {insight.kind === 'duplicate' ? '⚠️' : '💡'} {insight.title}
+                  </Text>
+                  <Text style={styles.listDetail}>{insight.message}</Text>
+                </View>
+                <TouchableOpacity
+                  onPress={() => dismissInsight(insight.id)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Text style={styles.dismissText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {/* Due Charges */}
+            {dueCharges.length > 0 && (
+              <View style={styles.listCard}>
+                <Text style={styles.listTitle}>Due</Text>
+                {dueCharges.map(({ subscription, date }) => (
+                  <View key={`${subscription.id}_${date.getTime()}`} style={styles.listRow}>
+                    <Text style={styles.listIcon}>{subscription.serviceIcon || '💳'}</Text>
+                    <View style={styles.listInfo}>
+                      <Text style={styles.listName}>{subscription.serviceName}</Text>
+                      <Text style={styles.listDetail}>
+                        {date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} •{' '}
+                        {SubscriptionCalculator.formatCurrency(
+                          SubscriptionCalculator.getChargeTotal(subscription, date)
+                        )}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => markPaid(subscription, date)}
+                    >
+                      <Text style={styles.actionButtonText}>Mark paid</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Unused Subscriptions */}
+            {unused.length > 0 && (
+              <View style={styles.listCard}>
+                <Text style={styles.listTitle}>Not Used Lately</Text>
+                {unused.map((subscription) => (
+                  <View key={subscription.id} style={styles.listRow}>
+                    <Text style={styles.listIcon}>{subscription.serviceIcon || '💳'}</Text>
+                    <View style={styles.listInfo}>
+                      <Text style={styles.listName}>{subscription.serviceName}</Text>
+                      <Text style={styles.listDetail}>
+                        {UsageTracker.getDaysSinceLastUse(subscription)} days •{' '}
+                        {SubscriptionCalculator.formatCurrency(
+                          SubscriptionCalculator.getMonthlyEquivalent(subscription)
+                        )}
+                        /mo
+                      </Text>
+                    </View>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => checkIn(subscription.id)}>
+                      <Text style={styles.actionButtonText}>I used it</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Savings Opportunities */}
+            {savings.length > 0 && (
+              <View style={styles.listCard}>
+                <Text style={styles.listTitle}>Save by Switching Plans</Text>
+                {savings.map((opportunity) => (
+                  <TouchableOpacity
+                    key={opportunity.subscription.id}
+                    style={styles.listRow}
+                    onPress={() => handleEditSubscription(opportunity.subscription)}
+                  >
+                    <Text style={styles.listIcon}>{opportunity.subscription.serviceIcon || '💳'}</Text>
+                    <View style={styles.listInfo}>
+                      <Text style={styles.listName}>{opportunity.subscription.serviceName}</Text>
+                      <Text style={styles.listDetail}>
+                        Switch to {(opportunity.plan.label ?? SubscriptionCalculator.formatRecurrence(opportunity.plan.recurrence)).toLowerCase()} at{' '}
+                        {SubscriptionCalculator.formatCurrency(opportunity.plan.amount)}
+                      </Text>
+                    </View>
+                    <Text style={styles.savingsAmount}>
+                      {SubscriptionCalculator.formatCurrency(opportunity.convertedSavings)}/yr
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {/* Forecast Link */}
+            <TouchableOpacity
+              style={[styles.linkCard, styles.linkCardStacked]}
+              onPress={() => navigation.navigate('Forecast')}
+              activeOpacity={0.7}
+            >
+              <View>
+                <Text style={styles.linkTitle}>12-Month Forecast</Text>
+                <Text style={styles.linkSubtitle}>See what's due each month</Text>
+              </View>
+              <Text style={styles.linkChevron}>›</Text>
+            </TouchableOpacity>
+
+            {/* Calendar Link */}
+            <TouchableOpacity
+              style={[styles.linkCard, styles.linkCardStacked]}
+              onPress={() => navigation.navigate('Calendar')}
+              activeOpacity={0.7}
+            >
+              <View>
+                <Text style={styles.linkTitle}>Calendar</Text>
+                <Text style={styles.linkSubtitle}>Charges day by day</Text>
+              </View>
+              <Text style={styles.linkChevron}>›</Text>
+            </TouchableOpacity>
+
+            {/* Year in Review Link */}
+            <TouchableOpacity
+              style={styles.linkCard}
+              onPress={() => navigation.navigate('YearInReview')}
+              activeOpacity={0.7}
+            >
+              <View>
+                <Text style={styles.linkTitle}>Year in Review</Text>
+                <Text style={styles.linkSubtitle}>Where your money went this year</Text>
+              </View>
+              <Text style={styles.linkChevron}>›</Text>
+            </TouchableOpacity>
+
             {/* Section Title */}
             <View style={styles.sectionHeader}>
               <Text style={styles.sectionTitle}>Your Subscriptions</Text>
@@ -149,8 +407,43 @@ export const DashboardScreen: React.FC = () => {
             onPress={() => handleEditSubscription(item)}
             onDelete={() => handleDelete(item.id)}
             onToggleReminder={() => {/* TODO */}}
+            onCheckIn={() => checkIn(item.id)}
+            unusedAfterDays={unusedAfterDays}
           />
         )}
+        ListFooterComponent={
+          endedSubscriptions.length > 0 ? (
+            <View style={styles.listCard}>
+              <Text style={styles.listTitle}>Ended</Text>
+              {endedSubscriptions.map((subscription) => (
+                <TouchableOpacity
+                  key={subscription.id}
+                  style={styles.listRow}
+                  onPress={() => handleEditSubscription(subscription)}
+                >
+                  <Text style={styles.listIcon}>{subscription.serviceIcon || '💳'}</Text>
+                  <View style={styles.listInfo}>
+                    <Text style={styles.listName}>{subscription.serviceName}</Text>
+                    <Text style={styles.listDetail}>
+                      Ended{' '}
+                      {SubscriptionCalculator.getEndDate(subscription)!.toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => archiveSubscription(subscription.id)}
+                  >
+                    <Text style={styles.actionButtonText}>Archive</Text>
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyIcon}>📋</Text>
@@ -249,6 +542,66 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     marginBottom: 20,
   },
+  ratesNote: {
+    fontSize: 11,
+    color: '#FFFFFF',
+    opacity: 0.8,
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    borderRadius: 16,
+    padding: 2,
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  viewOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 14,
+  },
+  viewOptionActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  viewOptionText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+  viewOptionTextActive: {
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  budget: {
+    marginBottom: 20,
+  },
+  budgetTrack: {
+    height: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  budgetFill: {
+    height: '100%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 4,
+  },
+  budgetFillOver: {
+    backgroundColor: '#FF6B6B',
+  },
+  budgetText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    opacity: 0.9,
+    marginTop: 6,
+  },
+  budgetWarning: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    marginTop: 4,
+  },
   summaryStats: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -275,6 +628,98 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFFFFF',
     opacity: 0.3,
   },
+  listCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  listTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 4,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  listIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  listDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  insightCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#FFF8E1',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  dismissText: {
+    fontSize: 16,
+    color: '#999999',
+    marginLeft: 12,
+  },
+  savingsAmount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#4CAF50',
+  },
+  actionButton: {
+    backgroundColor: '#E8F5E9',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  linkCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 24,
+  },
+  linkCardStacked: {
+    marginBottom: 12,
+  },
+  linkTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  linkSubtitle: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 4,
+  },
+  linkChevron: {
+    fontSize: 24,
+    color: '#CCCCCC',
+  },
   sectionHeader: {
     paddingHorizontal: 20,
     marginBottom: 12,
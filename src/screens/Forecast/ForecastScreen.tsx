@@ -0,0 +1,261 @@
+/**
+ * Forecast Screen
+ * 
+ * Month-by-month cash flow for the next 12 months
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useSubscriptionStore, useSettingsStore, useExchangeRateStore } from '@/store';
+import { SubscriptionCalculator } from '@/service/business';
+import { UnconvertedNotice } from '@/components';
+import { multiply, sum, zero } from '@/utils/money';
+import SafeScreen from '@/core/SafeScreen';
+import type { ForecastScreenProps } from '@/navigation/types';
+
+// Months costing this much more than the average are flagged as spikes
+const SPIKE_FACTOR = 1.5;
+
+export const ForecastScreen: React.FC = () => {
+  const navigation = useNavigation<ForecastScreenProps['navigation']>();
+  const [expandedMonth, setExpandedMonth] = useState<number | null>(0);
+
+  const { subscriptions } = useSubscriptionStore();
+  const { currency } = useSettingsStore();
+  const { rates } = useExchangeRateStore();
+  const displayCurrency = currency || 'INR';
+
+  const forecast = useMemo(
+    () => SubscriptionCalculator.getCashFlowForecast(subscriptions, displayCurrency, rates),
+    [subscriptions, displayCurrency, rates]
+  );
+  const unconvertible = SubscriptionCalculator.getUnconvertible(subscriptions, displayCurrency, rates);
+
+  const yearTotal = sum(forecast.map((month) => month.total), displayCurrency);
+  const average = forecast.length ? multiply(yearTotal, 1 / forecast.length) : zero(displayCurrency);
+  const maxMonth = Math.max(...forecast.map((month) => month.total.minor), 0);
+
+  return (
+    <SafeScreen style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Forecast</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Summary Card */}
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>Next 12 Months</Text>
+          <Text style={styles.summaryAmount}>
+            {SubscriptionCalculator.formatCurrency(yearTotal)}
+          </Text>
+          <Text style={styles.summaryNote}>
+            Avg. {SubscriptionCalculator.formatCurrency(average)} / month
+          </Text>
+          <UnconvertedNotice subscriptions={unconvertible} currency={displayCurrency} style={styles.summaryNote} />
+        </View>
+
+        {forecast.map((month, index) => {
+          const isSpike = month.total.minor > average.minor * SPIKE_FACTOR;
+          const isExpanded = expandedMonth === index;
+
+          return (
+            <TouchableOpacity
+              key={month.month.toISOString()}
+              style={styles.monthCard}
+              onPress={() => setExpandedMonth(isExpanded ? null : index)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.monthHeader}>
+                <Text style={styles.monthName}>
+                  {month.month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </Text>
+                <Text style={[styles.monthTotal, isSpike && styles.spikeText]}>
+                  {SubscriptionCalculator.formatCurrency(month.total)}
+                </Text>
+              </View>
+
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.barFill,
+                    isSpike && styles.spikeFill,
+                    { width: `${maxMonth ? (month.total.minor / maxMonth) * 100 : 0}%` },
+                  ]}
+                />
+              </View>
+
+              <Text style={styles.chargeCount}>
+                {month.charges.length} {month.charges.length === 1 ? 'charge' : 'charges'}
+                {isSpike ? ' • Higher than usual' : ''}
+              </Text>
+
+              {isExpanded &&
+                month.charges.map((charge) => (
+                  <View
+                    key={`${charge.subscriptionId}_${charge.date.getTime()}`}
+                    style={styles.chargeRow}
+                  >
+                    <Text style={styles.chargeIcon}>{charge.serviceIcon || '💳'}</Text>
+                    <View style={styles.chargeInfo}>
+                      <Text style={styles.chargeName}>{charge.serviceName}</Text>
+                      <Text style={styles.chargeDate}>
+                        {charge.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      </Text>
+                    </View>
+                    <View style={styles.chargeAmounts}>
+                      <Text style={styles.chargeAmount}>
+                        {SubscriptionCalculator.formatCurrency(charge.convertedAmount)}
+                      </Text>
+                      {charge.amount.currency !== month.currency && (
+                        <Text style={styles.chargeOriginal}>
+                          {SubscriptionCalculator.formatCurrency(charge.amount)}
+                        </Text>
+                      )}
+                    </View>
+                  </View>
+                ))}
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#4CAF50',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  content: {
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 20,
+    padding: 24,
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    opacity: 0.9,
+    marginBottom: 8,
+  },
+  summaryAmount: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  summaryNote: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    opacity: 0.8,
+    marginTop: 8,
+  },
+  monthCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginVertical: 6,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  monthName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  monthTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  spikeText: {
+    color: '#FF8C00',
+  },
+  barTrack: {
+    height: 6,
+    backgroundColor: '#E0E0E0',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+    borderRadius: 3,
+  },
+  spikeFill: {
+    backgroundColor: '#FFB84D',
+  },
+  chargeCount: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 8,
+  },
+  chargeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+    marginTop: 8,
+  },
+  chargeIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  chargeInfo: {
+    flex: 1,
+  },
+  chargeName: {
+    fontSize: 14,
+    color: '#1A1A1A',
+  },
+  chargeDate: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  chargeAmounts: {
+    alignItems: 'flex-end',
+  },
+  chargeAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  chargeOriginal: {
+    fontSize: 11,
+    color: '#999999',
+  },
+});
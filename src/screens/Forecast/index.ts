@@ -0,0 +1,2 @@
+export { ForecastScreen } from './ForecastScreen';
+export { ForecastScreen as default } from './ForecastScreen';
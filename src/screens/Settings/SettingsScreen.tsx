@@ -4,7 +4,7 @@
  * App configuration and preferences
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -15,7 +15,10 @@ import {
   Alert,
 } from 'react-native';
 import { useSettingsStore } from '@/store';
-import { Currency } from '@/types/subscription.types';
+import { CurrencyPicker } from '@/components';
+import { Money, SubscriptionCategory, SUBSCRIPTION_CATEGORIES } from '@/types/subscription.types';
+import { SubscriptionCalculator, DEFAULT_UNUSED_AFTER_DAYS } from '@/service/business';
+import { fromMajor, toMajor } from '@/utils/money';
 
 const MOCK_USER_ID = 'user_demo_123';
 
@@ -25,27 +28,26 @@ export const SettingsScreen: React.FC = () => {
     notificationsEnabled,
     theme,
     defaultReminderDays,
+    monthlyBudget,
+    categoryBudgets,
+    unusedAfterDays,
     fetchSettings,
     setCurrency,
     setNotificationsEnabled,
     setTheme,
     setDefaultReminderDays,
+    setMonthlyBudget,
+    setCategoryBudget,
+    setUnusedAfterDays,
   } = useSettingsStore();
+  const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
 
   useEffect(() => {
     fetchSettings(MOCK_USER_ID);
   }, []);
 
   const handleCurrencyChange = () => {
-    const currencies: Currency[] = ['USD', 'INR', 'EUR', 'GBP', 'AUD'];
-    Alert.alert(
-      'Select Currency',
-      'Choose your preferred currency',
-      currencies.map((curr) => ({
-        text: curr,
-        onPress: () => setCurrency(curr),
-      }))
-    );
+    setShowCurrencyPicker(true);
   };
 
   const handleThemeChange = () => {
@@ -68,7 +70,7 @@ export const SettingsScreen: React.FC = () => {
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Save',
-          onPress: (value) => {
+          onPress: (value?: string) => {
             const days = parseInt(value || '3');
             if (!isNaN(days) && days >= 0) {
               setDefaultReminderDays(days);
@@ -81,6 +83,80 @@ export const SettingsScreen: React.FC = () => {
     );
   };
 
+  const handleUnusedAfterDaysChange = () => {
+    Alert.prompt(
+      'Unused After',
+      'Flag a subscription as unused after how many days without a check-in?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Save',
+          onPress: (value?: string) => {
+            const days = parseInt(value || '', 10);
+            if (!isNaN(days) && days > 0) {
+              setUnusedAfterDays(days);
+            }
+          },
+        },
+      ],
+      'plain-text',
+      String(unusedAfterDays ?? DEFAULT_UNUSED_AFTER_DAYS),
+      'number-pad'
+    );
+  };
+
+  // Entered in the settings currency; empty or zero clears the budget
+  const promptBudget = (title: string, current: Money | undefined, onSave: (budget?: Money) => void) => {
+    const budgetCurrency = currency || 'INR';
+    Alert.prompt(
+      title,
+      `Monthly limit in ${budgetCurrency} (leave empty for no budget)`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Save',
+          onPress: (value) => {
+            const budget = parseFloat(value || '');
+            onSave(!isNaN(budget) && budget > 0 ? fromMajor(budget, budgetCurrency) : undefined);
+          },
+        },
+      ],
+      'plain-text',
+      current && current.currency === budgetCurrency ? String(toMajor(current)) : '',
+      'decimal-pad'
+    );
+  };
+
+  const handleMonthlyBudgetChange = () => {
+    promptBudget('Monthly Budget', monthlyBudget, setMonthlyBudget);
+  };
+
+  const handleCategoryBudgetChange = () => {
+    Alert.alert(
+      'Category Budget',
+      'Choose a category',
+      [
+        ...SUBSCRIPTION_CATEGORIES.map((category) => ({
+          text: `${category.icon} ${category.label}`,
+          onPress: () =>
+            promptBudget(
+              `${category.label} Budget`,
+              categoryBudgets?.[category.value],
+              (budget) => setCategoryBudget(category.value, budget)
+            ),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const categoryBudgetSummary = (Object.keys(categoryBudgets ?? {}) as SubscriptionCategory[])
+    .map((category) => {
+      const label = SUBSCRIPTION_CATEGORIES.find((c) => c.value === category)?.label;
+      return `${label} ${SubscriptionCalculator.formatCurrency(categoryBudgets![category]!)}`;
+    })
+    .join(', ');
+
   const handleExportData = () => {
     // TODO: Implement CSV export
     Alert.alert('Export Data', 'CSV export will be available soon!');
@@ -149,6 +225,48 @@ export const SettingsScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Budget Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Budget</Text>
+
+        <TouchableOpacity style={styles.settingRow} onPress={handleMonthlyBudgetChange}>
+          <View>
+            <Text style={styles.settingLabel}>Monthly Budget</Text>
+            <Text style={styles.settingValue}>
+              {monthlyBudget
+                ? SubscriptionCalculator.formatCurrency(monthlyBudget)
+                : 'Not set'}
+            </Text>
+          </View>
+          <Text style={styles.chevron}>›</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.settingRow} onPress={handleCategoryBudgetChange}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.settingLabel}>Category Budgets</Text>
+            <Text style={styles.settingDescription}>
+              {categoryBudgetSummary || 'Optional limits per category'}
+            </Text>
+          </View>
+          <Text style={styles.chevron}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Usage Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Usage</Text>
+
+        <TouchableOpacity style={styles.settingRow} onPress={handleUnusedAfterDaysChange}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.settingLabel}>Unused After</Text>
+            <Text style={styles.settingDescription}>
+              {unusedAfterDays ?? DEFAULT_UNUSED_AFTER_DAYS} days without a check-in
+            </Text>
+          </View>
+          <Text style={styles.chevron}>›</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Data Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Data</Text>
@@ -178,6 +296,13 @@ export const SettingsScreen: React.FC = () => {
       </View>
 
       <View style={{ height: 40 }} />
+
+      <CurrencyPicker
+        visible={showCurrencyPicker}
+        selected={currency || 'INR'}
+        onSelect={setCurrency}
+        onClose={() => setShowCurrencyPicker(false)}
+      />
     </ScrollView>
   );
 };
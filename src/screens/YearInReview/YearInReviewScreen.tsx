@@ -0,0 +1,331 @@
+/**
+ * Year in Review Screen
+ *
+ * A calendar year of subscription spending, shareable as plain text
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Share,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useSubscriptionStore, useSettingsStore, useExchangeRateStore } from '@/store';
+import { SubscriptionCalculator, SpendingInsights } from '@/service/business';
+import { UnconvertedNotice } from '@/components';
+import { SUBSCRIPTION_CATEGORIES } from '@/types/subscription.types';
+import { logger } from '@/utils/logger';
+import SafeScreen from '@/core/SafeScreen';
+import type { YearInReviewScreenProps } from '@/navigation/types';
+
+export const YearInReviewScreen: React.FC = () => {
+  const navigation = useNavigation<YearInReviewScreenProps['navigation']>();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+
+  const { subscriptions } = useSubscriptionStore();
+  const { currency } = useSettingsStore();
+  const { rates } = useExchangeRateStore();
+  const displayCurrency = currency || 'INR';
+
+  const review = useMemo(
+    () => SpendingInsights.getYearInReview(subscriptions, year, displayCurrency, rates),
+    [subscriptions, year, displayCurrency, rates]
+  );
+  const unconvertible = SubscriptionCalculator.getUnconvertible(subscriptions, displayCurrency, rates);
+
+  const handleShare = async () => {
+    try {
+      await Share.share({ message: SpendingInsights.toPlainText(review) });
+    } catch (error) {
+      logger.error('YearInReviewScreen.handleShare', error);
+    }
+  };
+
+  const topCategory = review.spendByCategory[0]?.amount.minor || 0;
+
+  return (
+    <SafeScreen style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity onPress={() => navigation.goBack()}>
+            <Text style={styles.backButton}>‹ Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleShare}>
+            <Text style={styles.backButton}>Share</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.title}>Year in Review</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Year Switcher */}
+        <View style={styles.yearSwitcher}>
+          <TouchableOpacity onPress={() => setYear(year - 1)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.yearArrow}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.yearText}>{year}</Text>
+          <TouchableOpacity
+            onPress={() => setYear(year + 1)}
+            disabled={year >= currentYear}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.yearArrow, year >= currentYear && styles.yearArrowDisabled]}>›</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Summary Card */}
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryLabel}>
+            {year === currentYear ? 'Spent So Far This Year' : `Spent in ${year}`}
+          </Text>
+          <Text style={styles.summaryAmount}>
+            {SubscriptionCalculator.formatCurrency(review.totalSpent)}
+          </Text>
+          <Text style={styles.summaryNote}>
+            {SubscriptionCalculator.formatCurrency(review.averagePerDay)} a day • {review.chargeCount}{' '}
+            {review.chargeCount === 1 ? 'charge' : 'charges'}
+          </Text>
+          <UnconvertedNotice subscriptions={unconvertible} currency={displayCurrency} style={styles.summaryNote} />
+        </View>
+
+        {/* Spend by Category */}
+        {review.spendByCategory.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>By Category</Text>
+            {review.spendByCategory.map(({ category, amount }) => (
+              <View key={category} style={styles.barRow}>
+                <View style={styles.row}>
+                  <Text style={styles.rowLabel}>
+                    {SUBSCRIPTION_CATEGORIES.find((c) => c.value === category)?.label ?? category}
+                  </Text>
+                  <Text style={styles.rowValue}>{SubscriptionCalculator.formatCurrency(amount)}</Text>
+                </View>
+                <View style={styles.barTrack}>
+                  <View
+                    style={[
+                      styles.barFill,
+                      { width: `${topCategory ? (amount.minor / topCategory) * 100 : 0}%` },
+                    ]}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Spend by Payment Method */}
+        {review.spendByPaymentMethod.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>By Payment Method</Text>
+            {review.spendByPaymentMethod.map(({ paymentMethod, amount }) => (
+              <View key={paymentMethod} style={styles.row}>
+                <Text style={styles.rowLabel}>{paymentMethod}</Text>
+                <Text style={styles.rowValue}>{SubscriptionCalculator.formatCurrency(amount)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Price Increases */}
+        {review.priceIncreases.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Biggest Price Increases</Text>
+            {review.priceIncreases.map((increase) => (
+              <View
+                key={`${increase.subscription.id}_${increase.effectiveFrom.getTime()}`}
+                style={styles.row}
+              >
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowLabel}>{increase.subscription.serviceName}</Text>
+                  <Text style={styles.rowDetail}>
+                    {SubscriptionCalculator.formatCurrency(increase.previous)} →{' '}
+                    {SubscriptionCalculator.formatCurrency(increase.current)} from{' '}
+                    {increase.effectiveFrom.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </Text>
+                </View>
+                <Text style={styles.increaseValue}>
+                  +{SubscriptionCalculator.formatCurrency(increase.yearlyImpact)}/yr
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* New and Cancelled */}
+        {(review.newSubscriptions.length > 0 || review.cancellations.length > 0) && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Changes</Text>
+            {review.newSubscriptions.map((sub) => (
+              <View key={`new_${sub.id}`} style={styles.row}>
+                <Text style={styles.rowLabel}>
+                  {sub.serviceIcon || '💳'} {sub.serviceName}
+                </Text>
+                <Text style={styles.newTag}>New</Text>
+              </View>
+            ))}
+            {review.cancellations.map((sub) => (
+              <View key={`cancelled_${sub.id}`} style={styles.row}>
+                <Text style={styles.rowLabel}>
+                  {sub.serviceIcon || '💳'} {sub.serviceName}
+                </Text>
+                <Text style={styles.cancelledTag}>Cancelled</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {review.chargeCount === 0 && (
+          <Text style={styles.emptyText}>No charges in {year}.</Text>
+        )}
+      </ScrollView>
+    </SafeScreen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    fontSize: 16,
+    color: '#4CAF50',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  content: {
+    paddingBottom: 40,
+  },
+  yearSwitcher: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 24,
+    marginBottom: 12,
+  },
+  yearArrow: {
+    fontSize: 28,
+    color: '#4CAF50',
+  },
+  yearArrowDisabled: {
+    color: '#CCCCCC',
+  },
+  yearText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  summaryCard: {
+    backgroundColor: '#4CAF50',
+    borderRadius: 20,
+    padding: 24,
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    opacity: 0.9,
+    marginBottom: 8,
+  },
+  summaryAmount: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  summaryNote: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    opacity: 0.8,
+    marginTop: 8,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginVertical: 6,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+  barRow: {
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: '#1A1A1A',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  barTrack: {
+    height: 6,
+    backgroundColor: '#E0E0E0',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    backgroundColor: '#4CAF50',
+    borderRadius: 3,
+  },
+  increaseValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF6B6B',
+  },
+  newTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4CAF50',
+  },
+  cancelledTag: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
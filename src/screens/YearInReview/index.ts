@@ -0,0 +1,2 @@
+export { YearInReviewScreen } from './YearInReviewScreen';
+export { YearInReviewScreen as default } from './YearInReviewScreen';
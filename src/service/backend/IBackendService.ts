@@ -5,7 +5,15 @@
  * without changing business logic.
  */
 
-import { Subscription, AppSettings } from '@/types/subscription.types';
+import {
+  Subscription,
+  AppSettings,
+  Currency,
+  Money,
+  SubscriptionCategory,
+} from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { ChargeRecord } from '@/types/ledger.types';
 
 export interface IBackendService {
   // ===== Subscriptions =====
@@ -40,6 +48,39 @@ export interface IBackendService {
    */
   hardDeleteSubscription(subscriptionId: string): Promise<void>;
   
+  // ===== Payment Ledger =====
+  
+  /**
+   * Fetch charge records for a user, optionally for one subscription
+   */
+  getChargeRecords(userId: string, subscriptionId?: string): Promise<ChargeRecord[]>;
+  
+  /**
+   * Record an actual charge
+   */
+  createChargeRecord(record: Omit<ChargeRecord, 'id' | 'createdAt' | 'updatedAt'>): Promise<ChargeRecord>;
+  
+  /**
+   * Update a charge record (e.g. paid -> refunded)
+   */
+  updateChargeRecord(recordId: string, updates: Partial<ChargeRecord>): Promise<ChargeRecord>;
+  
+  /**
+   * Delete a charge record
+   */
+  deleteChargeRecord(recordId: string): Promise<void>;
+  
+  // ===== Reports =====
+  
+  /**
+   * Monthly equivalent spend per category, converted into one currency
+   */
+  getSpendByCategory(
+    userId: string,
+    currency: Currency,
+    rates?: ExchangeRates
+  ): Promise<Partial<Record<SubscriptionCategory, Money>>>;
+  
   // ===== Settings =====
   
   /**
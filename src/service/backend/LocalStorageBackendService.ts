@@ -7,12 +7,23 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { IBackendService } from './IBackendService';
-import { Subscription, AppSettings } from '@/types/subscription.types';
+import {
+  Subscription,
+  AppSettings,
+  Currency,
+  Money,
+  SubscriptionCategory,
+} from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { ChargeRecord } from '@/types/ledger.types';
+import { SubscriptionCalculator } from '@/service/business/SubscriptionCalculator';
 import { logger } from '@/utils/logger';
+import { migrateChargeRecord, migrateSettings, migrateSubscription } from './subscriptionMigrations';
 
 const STORAGE_KEYS = {
   SUBSCRIPTIONS: '@substrack:subscriptions',
   SETTINGS: '@substrack:settings',
+  LEDGER: '@substrack:ledger',
 } as const;
 
 export class LocalStorageBackendService implements IBackendService {
@@ -139,6 +150,106 @@ export class LocalStorageBackendService implements IBackendService {
     }
   }
 
+  // ===== Payment Ledger =====
+
+  async getChargeRecords(userId: string, subscriptionId?: string): Promise<ChargeRecord[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LEDGER);
+      if (!data) return [];
+
+      const allRecords: ChargeRecord[] = JSON.parse(data);
+
+      return allRecords
+        .filter(record => record.userId === userId)
+        .filter(record => !subscriptionId || record.subscriptionId === subscriptionId)
+        .map(record => this.parseChargeRecord(record));
+    } catch (error) {
+      logger.error('LocalStorageBackendService', 'getChargeRecords error:', error);
+      return [];
+    }
+  }
+
+  async createChargeRecord(
+    record: Omit<ChargeRecord, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<ChargeRecord> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LEDGER);
+      const allRecords: ChargeRecord[] = data ? JSON.parse(data) : [];
+
+      const newRecord: ChargeRecord = {
+        ...record,
+        id: `charge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      allRecords.push(newRecord);
+      await AsyncStorage.setItem(STORAGE_KEYS.LEDGER, JSON.stringify(allRecords));
+
+      logger.info('LocalStorageBackendService', 'Created charge record:', newRecord.id);
+      return newRecord;
+    } catch (error) {
+      logger.error('LocalStorageBackendService', 'createChargeRecord error:', error);
+      throw error;
+    }
+  }
+
+  async updateChargeRecord(
+    recordId: string,
+    updates: Partial<ChargeRecord>
+  ): Promise<ChargeRecord> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LEDGER);
+      const allRecords: ChargeRecord[] = data ? JSON.parse(data) : [];
+
+      const index = allRecords.findIndex(record => record.id === recordId);
+      if (index === -1) {
+        throw new Error('Charge record not found');
+      }
+
+      allRecords[index] = {
+        ...allRecords[index],
+        ...updates,
+        updatedAt: new Date(),
+      };
+
+      await AsyncStorage.setItem(STORAGE_KEYS.LEDGER, JSON.stringify(allRecords));
+
+      logger.info('LocalStorageBackendService', 'Updated charge record:', recordId);
+      return this.parseChargeRecord(allRecords[index]);
+    } catch (error) {
+      logger.error('LocalStorageBackendService', 'updateChargeRecord error:', error);
+      throw error;
+    }
+  }
+
+  async deleteChargeRecord(recordId: string): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LEDGER);
+      const allRecords: ChargeRecord[] = data ? JSON.parse(data) : [];
+
+      const filtered = allRecords.filter(record => record.id !== recordId);
+      await AsyncStorage.setItem(STORAGE_KEYS.LEDGER, JSON.stringify(filtered));
+
+      logger.info('LocalStorageBackendService', 'Deleted charge record:', recordId);
+    } catch (error) {
+      logger.error('LocalStorageBackendService', 'deleteChargeRecord error:', error);
+      throw error;
+    }
+  }
+
+  // ===== Reports =====
+
+  async getSpendByCategory(
+    userId: string,
+    currency: Currency,
+    rates?: ExchangeRates
+  ): Promise<Partial<Record<SubscriptionCategory, Money>>> {
+    const subscriptions = await this.getSubscriptions(userId);
+    const active = subscriptions.filter(sub => SubscriptionCalculator.isActive(sub));
+    return SubscriptionCalculator.getSpendByCategory(active, currency, rates);
+  }
+
   // ===== Settings =====
 
   async getSettings(userId: string): Promise<AppSettings | null> {
@@ -151,7 +262,7 @@ export class LocalStorageBackendService implements IBackendService {
 
       if (settings) {
         return {
-          ...settings,
+          ...migrateSettings(settings),
           updatedAt: new Date(settings.updatedAt),
         };
       }
@@ -222,13 +333,11 @@ export class LocalStorageBackendService implements IBackendService {
   // ===== Helper Methods =====
 
   private parseSubscription(sub: any): Subscription {
-    return {
-      ...sub,
-      startDate: new Date(sub.startDate),
-      createdAt: new Date(sub.createdAt),
-      updatedAt: new Date(sub.updatedAt),
-      lastSyncedAt: sub.lastSyncedAt ? new Date(sub.lastSyncedAt) : undefined,
-    };
+    return migrateSubscription(sub);
+  }
+
+  private parseChargeRecord(record: any): ChargeRecord {
+    return migrateChargeRecord(record);
   }
 }
 
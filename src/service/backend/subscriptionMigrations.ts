@@ -0,0 +1,139 @@
+/**
+ * Subscription Migrations
+ * 
+ * Brings records written by older app versions up to the current shape.
+ * Used when reading from AsyncStorage (backend) and when rehydrating the
+ * persisted Zustand store.
+ */
+
+import {
+  Subscription,
+  AppSettings,
+  CalendarDate,
+  Currency,
+  Money,
+  Recurrence,
+  ChargeFee,
+} from '@/types/subscription.types';
+import { ChargeRecord } from '@/types/ledger.types';
+import { isCalendarDate, parseCalendarDate, toCalendarDate } from '@/utils/calendarDate';
+import { fromMajor } from '@/utils/money';
+import { SubscriptionCalculator } from '@/service/business/SubscriptionCalculator';
+
+// Bump when the stored Subscription shape changes (used as the store persist version)
+export const SUBSCRIPTION_SCHEMA_VERSION = 4;
+
+// Bump when the stored AppSettings shape changes (used as the settings store persist version)
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+/**
+ * Billing dates used to be stored as JS Date timestamps; keep the local
+ * calendar day they pointed at
+ */
+const toCalendarDateField = (value: any): CalendarDate =>
+  isCalendarDate(value) ? value : toCalendarDate(parseCalendarDate(value));
+
+// Billing frequencies stored before v3, which replaced them with an interval and a unit
+const LEGACY_FREQUENCIES: Record<string, Recurrence> = {
+  monthly: { interval: 1, unit: 'month' },
+  quarterly: { interval: 3, unit: 'month' },
+  'half-yearly': { interval: 6, unit: 'month' },
+  yearly: { interval: 1, unit: 'year' },
+};
+
+/**
+ * 'custom' meant every customFrequencyDays days; anything unrecognised bills monthly
+ */
+const toRecurrence = (record: any): Recurrence => {
+  if (record.recurrence) return record.recurrence;
+  if (record.frequency === 'custom') {
+    return { interval: record.customFrequencyDays || 30, unit: 'day' };
+  }
+  return LEGACY_FREQUENCIES[record.frequency] ?? LEGACY_FREQUENCIES.monthly;
+};
+
+const withoutLegacyFrequency = ({ frequency: _frequency, customFrequencyDays: _days, ...rest }: any) => rest;
+
+/**
+ * Amounts were decimal numbers in the record's currency before v4
+ */
+const toMoney = (value: any, currency: Currency): Money =>
+  typeof value === 'number' ? fromMajor(value, currency) : value;
+
+const toChargeFee = (fee: any, currency: Currency): ChargeFee =>
+  fee.type === 'fixed' && fee.amount === undefined
+    ? { label: fee.label, type: 'fixed', amount: toMoney(fee.value, currency) }
+    : fee;
+
+export const migrateChargeRecord = (record: any): ChargeRecord => {
+  const { currency, ...rest } = record;
+  return {
+    ...rest,
+    amount: toMoney(record.amount, currency ?? 'INR'),
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+  };
+};
+
+/**
+ * Budgets were decimal numbers in the settings currency before v1, so they
+ * changed value whenever the currency did
+ */
+export const migrateSettings = (settings: any): AppSettings => {
+  const currency: Currency = settings.currency ?? 'INR';
+  const categoryBudgets = settings.categoryBudgets as Record<string, any> | undefined;
+  return {
+    ...settings,
+    monthlyBudget:
+      settings.monthlyBudget !== undefined ? toMoney(settings.monthlyBudget, currency) : undefined,
+    categoryBudgets: categoryBudgets
+      ? Object.keys(categoryBudgets).reduce<Record<string, Money>>((budgets, category) => {
+          budgets[category] = toMoney(categoryBudgets[category], currency);
+          return budgets;
+        }, {})
+      : undefined,
+  };
+};
+
+export const migrateSubscription = (sub: any): Subscription => {
+  const currency: Currency = sub.currency ?? 'INR';
+  return {
+    ...withoutLegacyFrequency(sub),
+    // Money amounts (added in v4)
+    amount: toMoney(sub.amount, currency),
+    postTrialAmount:
+      sub.postTrialAmount !== undefined ? toMoney(sub.postTrialAmount, currency) : undefined,
+    fees: sub.fees?.map((fee: any) => toChargeFee(fee, currency)),
+    members: sub.members?.map((member: any) => ({
+      ...member,
+      fixedAmount:
+        member.fixedAmount !== undefined ? toMoney(member.fixedAmount, currency) : undefined,
+    })),
+    // Recurrence (added in v3)
+    recurrence: toRecurrence(sub),
+    alternativePlans: sub.alternativePlans?.map(({ currency: planCurrency, ...plan }: any) => ({
+      ...withoutLegacyFrequency(plan),
+      amount: toMoney(plan.amount, planCurrency ?? currency),
+      recurrence: toRecurrence(plan),
+    })),
+    // Categories (added in v2) - default from the popular services list
+    category: sub.category ?? SubscriptionCalculator.getDefaultCategory(sub.serviceName ?? ''),
+    tags: sub.tags ?? [],
+    // Calendar dates
+    startDate: toCalendarDateField(sub.startDate),
+    trialEndDate: sub.trialEndDate ? toCalendarDateField(sub.trialEndDate) : undefined,
+    priceHistory: sub.priceHistory?.map((price: any) => ({
+      ...price,
+      amount: toMoney(price.amount, currency),
+      effectiveFrom: toCalendarDateField(price.effectiveFrom),
+    })),
+    pauses: sub.pauses?.map((pause: any) => ({
+      startDate: toCalendarDateField(pause.startDate),
+      resumeDate: toCalendarDateField(pause.resumeDate),
+    })),
+    // Timestamps
+    createdAt: new Date(sub.createdAt),
+    updatedAt: new Date(sub.updatedAt),
+    lastSyncedAt: sub.lastSyncedAt ? new Date(sub.lastSyncedAt) : undefined,
+  };
+};
@@ -4,9 +4,17 @@
  * Handles scheduling local notifications for subscription reminders
  */
 
-import { Subscription } from '@/types/subscription.types';
+import {
+  Subscription,
+  PauseInterval,
+  BudgetStatus,
+  SUBSCRIPTION_CATEGORIES,
+} from '@/types/subscription.types';
 import { SubscriptionCalculator } from './SubscriptionCalculator';
+import { UsageTracker, DEFAULT_UNUSED_AFTER_DAYS } from './UsageTracker';
 import { logger } from '@/utils/logger';
+import { addDays, parseCalendarDate, startOfDay } from '@/utils/calendarDate';
+import { negate } from '@/utils/money';
 
 // Note: You'll need to install @notifee/react-native or react-native-push-notification
 // For now, this is a placeholder that shows the logic
@@ -15,18 +23,35 @@ export interface ScheduledNotification {
   id: string;
   subscriptionId: string;
   scheduledDate: Date;
-  type: 'billing_reminder' | 'cancellation_alert';
+  type:
+    | 'billing_reminder'
+    | 'cancellation_alert'
+    | 'trial_conversion'
+    | 'resume_reminder'
+    | 'budget_alert'
+    | 'usage_check'
+    | 'notice_deadline';
   title: string;
   body: string;
+  actions?: { id: string; title: string }[];
 }
 
+// Action on the "still using it?" notification that records a check-in
+export const USAGE_CHECK_IN_ACTION = 'used_it';
+
+export type NotificationActionHandler = (actionId: string, subscriptionId: string) => void;
+
 export class NotificationScheduler {
   private static scheduledNotifications: Map<string, ScheduledNotification> = new Map();
+  private static actionHandler: NotificationActionHandler | null = null;
 
   /**
    * Schedule all notifications for a subscription
    */
-  static async scheduleForSubscription(subscription: Subscription): Promise<void> {
+  static async scheduleForSubscription(
+    subscription: Subscription,
+    unusedAfterDays: number = DEFAULT_UNUSED_AFTER_DAYS
+  ): Promise<void> {
     try {
       // Cancel existing notifications for this subscription
       await this.cancelForSubscription(subscription.id);
@@ -35,9 +60,27 @@ export class NotificationScheduler {
         return;
       }
 
+      // Contract notice deadlines apply whether or not billing is paused
+      await this.scheduleNoticeDeadlineAlert(subscription);
+
+      // While paused, the only alert is the heads-up that billing restarts
+      const pause = SubscriptionCalculator.getActivePause(subscription);
+      if (pause) {
+        await this.scheduleResumeReminder(subscription, pause);
+        return;
+      }
+
       // Schedule regular billing reminder
       await this.scheduleBillingReminder(subscription);
 
+      // Ask whether it's still needed if it'll be unused by then
+      await this.scheduleUsageCheck(subscription, unusedAfterDays);
+
+      // Warn before a free trial turns into the first paid charge
+      if (SubscriptionCalculator.getTrialEndDate(subscription)) {
+        await this.scheduleTrialConversionAlert(subscription);
+      }
+
       // Schedule cancellation alert for one-time subscriptions
       if (subscription.isOneTime && subscription.cycleLimit) {
         await this.scheduleCancellationAlert(subscription);
@@ -54,10 +97,19 @@ export class NotificationScheduler {
 
   /**
    * Schedule billing reminder (X days before billing date)
+   * The first charge after a free trial gets the trial conversion alert instead
    */
   private static async scheduleBillingReminder(subscription: Subscription): Promise<void> {
-    const reminderDate = SubscriptionCalculator.getReminderDate(subscription);
-    if (!reminderDate) return;
+    const reminder = SubscriptionCalculator.getNextReminder(subscription);
+    if (!reminder) return;
+    const { chargeDate, reminderDate } = reminder;
+
+    if (
+      SubscriptionCalculator.getTrialEndDate(subscription) &&
+      chargeDate.getTime() === SubscriptionCalculator.getFirstBillingDate(subscription).getTime()
+    ) {
+      return;
+    }
 
     const notification: ScheduledNotification = {
       id: `billing_${subscription.id}`,
@@ -65,7 +117,7 @@ export class NotificationScheduler {
       scheduledDate: reminderDate,
       type: 'billing_reminder',
       title: `${subscription.serviceName} - Upcoming Payment`,
-      body: `${SubscriptionCalculator.formatCurrency(subscription.amount, subscription.currency)} will be charged in ${subscription.reminderDaysBefore} days`,
+      body: `${SubscriptionCalculator.formatCurrency(SubscriptionCalculator.getChargeTotal(subscription, chargeDate))} will be charged on ${chargeDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
     };
 
     // In production, use actual notification library
@@ -75,13 +127,150 @@ export class NotificationScheduler {
     logger.info('Scheduled billing reminder', { notification });
   }
 
+  /**
+   * Schedule "still using it?" prompt before the next charge, when the
+   * subscription will have gone `unusedAfterDays` without a check-in by then
+   */
+  private static async scheduleUsageCheck(subscription: Subscription, unusedAfterDays: number): Promise<void> {
+    const reminder = SubscriptionCalculator.getNextReminder(subscription);
+    if (!reminder) return;
+    const { chargeDate } = reminder;
+
+    // Reminder window may already have started; ask right away then
+    const now = new Date();
+    const promptDate = reminder.reminderDate > now ? reminder.reminderDate : now;
+    if (!UsageTracker.isUnused(subscription, unusedAfterDays, promptDate)) return;
+
+    const lastUsed = UsageTracker.getLastUsedDate(subscription);
+
+    const notification: ScheduledNotification = {
+      id: `usage_${subscription.id}`,
+      subscriptionId: subscription.id,
+      scheduledDate: promptDate,
+      type: 'usage_check',
+      title: `Still using ${subscription.serviceName}?`,
+      body: `${lastUsed ? `Last used ${lastUsed.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}` : 'No uses recorded'}. ${SubscriptionCalculator.formatCurrency(SubscriptionCalculator.getChargeTotal(subscription, chargeDate))} will be charged on ${chargeDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}.`,
+      actions: [{ id: USAGE_CHECK_IN_ACTION, title: 'I used it' }],
+    };
+
+    // In production, use actual notification library
+    // await notifee.createTriggerNotification(notification, trigger);
+
+    this.scheduledNotifications.set(notification.id, notification);
+    logger.info('Scheduled usage check', { notification });
+  }
+
+  /**
+   * Register what happens when a notification action is tapped
+   */
+  static setActionHandler(handler: NotificationActionHandler | null): void {
+    this.actionHandler = handler;
+  }
+
+  /**
+   * Called by the notification library when an action button is pressed
+   * In production: notifee.onForegroundEvent / onBackgroundEvent -> handleAction
+   */
+  static handleAction(notificationId: string, actionId: string): void {
+    const notification = this.scheduledNotifications.get(notificationId);
+    if (!notification) return;
+
+    logger.info('Notification action', { notificationId, actionId });
+    this.actionHandler?.(actionId, notification.subscriptionId);
+  }
+
+  /**
+   * Schedule "trial converts to paid" alert (X days before the first charge)
+   */
+  private static async scheduleTrialConversionAlert(subscription: Subscription): Promise<void> {
+    const firstCharge = SubscriptionCalculator.getFirstBillingDate(subscription);
+
+    // Trial already converted
+    const now = new Date();
+    if (firstCharge < startOfDay(now)) return;
+
+    // Reminder window may already have started; alert right away then
+    const reminderDate = addDays(firstCharge, -subscription.reminderDaysBefore);
+    const alertDate = reminderDate > now ? reminderDate : now;
+
+    const notification: ScheduledNotification = {
+      id: `trial_${subscription.id}`,
+      subscriptionId: subscription.id,
+      scheduledDate: alertDate,
+      type: 'trial_conversion',
+      title: `${subscription.serviceName} - Free Trial Ending`,
+      body: `Your trial converts to a paid plan on ${firstCharge.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}. ${SubscriptionCalculator.formatCurrency(SubscriptionCalculator.getChargeTotal(subscription, firstCharge))} will be charged unless you cancel.`,
+    };
+
+    // In production, use actual notification library
+    // await notifee.createTriggerNotification(notification, trigger);
+
+    this.scheduledNotifications.set(notification.id, notification);
+    logger.info('Scheduled trial conversion alert', { notification });
+  }
+
+  /**
+   * Schedule "give notice or it renews" alert (X days before the contract's notice deadline)
+   */
+  private static async scheduleNoticeDeadlineAlert(subscription: Subscription): Promise<void> {
+    const notice = SubscriptionCalculator.getNoticeDeadline(subscription);
+    if (!notice) return;
+    const { deadline, termEnd } = notice;
+
+    // Reminder window may already have started; alert right away then
+    const now = new Date();
+    const reminderDate = addDays(deadline, -subscription.reminderDaysBefore);
+    const alertDate = reminderDate > now ? reminderDate : now;
+
+    const notification: ScheduledNotification = {
+      id: `notice_${subscription.id}`,
+      subscriptionId: subscription.id,
+      scheduledDate: alertDate,
+      type: 'notice_deadline',
+      title: `${subscription.serviceName} - Notice Deadline`,
+      body: `Give notice by ${deadline.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} or your contract renews on ${addDays(termEnd, 1).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}.`,
+    };
+
+    // In production, use actual notification library
+    // await notifee.createTriggerNotification(notification, trigger);
+
+    this.scheduledNotifications.set(notification.id, notification);
+    logger.info('Scheduled notice deadline alert', { notification });
+  }
+
+  /**
+   * Schedule auto-resume reminder (X days before a pause ends and billing restarts)
+   */
+  private static async scheduleResumeReminder(subscription: Subscription, pause: PauseInterval): Promise<void> {
+    const resumeDate = parseCalendarDate(pause.resumeDate);
+    const reminderDate = addDays(resumeDate, -subscription.reminderDaysBefore);
+    // A pause ending inside the reminder window gets its reminder right away
+    const now = new Date();
+    const alertDate = reminderDate > now ? reminderDate : now;
+
+    const notification: ScheduledNotification = {
+      id: `resume_${subscription.id}`,
+      subscriptionId: subscription.id,
+      scheduledDate: alertDate,
+      type: 'resume_reminder',
+      title: `${subscription.serviceName} - Pause Ending`,
+      body: `Your subscription resumes on ${resumeDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} and billing restarts. Extend the pause or cancel if you no longer need it.`,
+    };
+
+    // In production, use actual notification library
+    // await notifee.createTriggerNotification(notification, trigger);
+
+    this.scheduledNotifications.set(notification.id, notification);
+    logger.info('Scheduled resume reminder', { notification });
+  }
+
   /**
    * Schedule cancellation alert for one-time subscriptions
    * Alert at end of (cycleLimit - 1), so user can cancel before final billing
    */
   private static async scheduleCancellationAlert(subscription: Subscription): Promise<void> {
     const cancellationDate = SubscriptionCalculator.getCancellationReminderDate(subscription);
-    if (!cancellationDate) return;
+    if (!cancellationDate || !subscription.cycleLimit) return;
 
     const notification: ScheduledNotification = {
       id: `cancel_${subscription.id}`,
@@ -89,7 +278,10 @@ export class NotificationScheduler {
       scheduledDate: cancellationDate,
       type: 'cancellation_alert',
       title: `${subscription.serviceName} - Subscription Ending Soon`,
-      body: `Your ${subscription.cycleLimit}-month subscription has 1 cycle left. Cancel now to avoid next billing!`,
+      body: `Your one-time plan (${SubscriptionCalculator.formatCycleCount(
+        subscription.cycleLimit,
+        subscription.recurrence
+      )}) has 1 cycle left. Cancel now to avoid next billing!`,
     };
 
     // In production, use actual notification library
@@ -99,6 +291,39 @@ export class NotificationScheduler {
     logger.info('Scheduled cancellation alert', { notification });
   }
 
+  /**
+   * Notify right away that a subscription pushed spend over budget
+   */
+  static async notifyBudgetExceeded(
+    subscription: Subscription,
+    budgets: BudgetStatus[]
+  ): Promise<void> {
+    try {
+      for (const budget of budgets) {
+        const label = budget.category
+          ? SUBSCRIPTION_CATEGORIES.find(c => c.value === budget.category)?.label ?? budget.category
+          : 'Monthly';
+
+        const notification: ScheduledNotification = {
+          id: `budget_${budget.category ?? 'overall'}`,
+          subscriptionId: subscription.id,
+          scheduledDate: new Date(),
+          type: 'budget_alert',
+          title: `${label} Budget Exceeded`,
+          body: `With ${subscription.serviceName} you're at ${SubscriptionCalculator.formatCurrency(budget.used)} a month, ${SubscriptionCalculator.formatCurrency(negate(budget.remaining))} over your ${SubscriptionCalculator.formatCurrency(budget.limit)} budget.`,
+        };
+
+        // In production, use actual notification library
+        // await notifee.displayNotification(notification);
+
+        this.scheduledNotifications.set(notification.id, notification);
+        logger.info('Sent budget alert', { notification });
+      }
+    } catch (error) {
+      logger.error('NotificationScheduler.notifyBudgetExceeded', error);
+    }
+  }
+
   /**
    * Cancel all notifications for a subscription
    */
@@ -106,12 +331,24 @@ export class NotificationScheduler {
     try {
       const billingId = `billing_${subscriptionId}`;
       const cancelId = `cancel_${subscriptionId}`;
+      const trialId = `trial_${subscriptionId}`;
+      const resumeId = `resume_${subscriptionId}`;
+      const usageId = `usage_${subscriptionId}`;
+      const noticeId = `notice_${subscriptionId}`;
 
       // In production: await notifee.cancelNotification(billingId);
       // In production: await notifee.cancelNotification(cancelId);
+      // In production: await notifee.cancelNotification(trialId);
+      // In production: await notifee.cancelNotification(resumeId);
+      // In production: await notifee.cancelNotification(usageId);
+      // In production: await notifee.cancelNotification(noticeId);
 
       this.scheduledNotifications.delete(billingId);
       this.scheduledNotifications.delete(cancelId);
+      this.scheduledNotifications.delete(trialId);
+      this.scheduledNotifications.delete(resumeId);
+      this.scheduledNotifications.delete(usageId);
+      this.scheduledNotifications.delete(noticeId);
 
       logger.info('Cancelled notifications', { subscriptionId });
     } catch (error) {
@@ -122,7 +359,10 @@ export class NotificationScheduler {
   /**
    * Reschedule notifications for all subscriptions
    */
-  static async rescheduleAll(subscriptions: Subscription[]): Promise<void> {
+  static async rescheduleAll(
+    subscriptions: Subscription[],
+    unusedAfterDays: number = DEFAULT_UNUSED_AFTER_DAYS
+  ): Promise<void> {
     try {
       // Cancel all existing
       await this.cancelAll();
@@ -130,7 +370,7 @@ export class NotificationScheduler {
       // Schedule new
       for (const subscription of subscriptions) {
         if (SubscriptionCalculator.isActive(subscription)) {
-          await this.scheduleForSubscription(subscription);
+          await this.scheduleForSubscription(subscription, unusedAfterDays);
         }
       }
 
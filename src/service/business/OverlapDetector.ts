@@ -0,0 +1,174 @@
+/**
+ * Overlap Detector
+ * 
+ * Flags subscriptions the user is probably paying for twice:
+ * - Duplicates: the same service added more than once (matched through the
+ *   service catalog, so "Prime Video" is Amazon Prime), or differently named
+ *   entries charging the same amount on the same cycle to the same payment method
+ * - Overlaps: several services doing the same job (e.g. Spotify + Apple Music)
+ */
+
+import {
+  Subscription,
+  SubscriptionCategory,
+  OverlapInsight,
+  SUBSCRIPTION_CATEGORIES,
+} from '@/types/subscription.types';
+import { SubscriptionCalculator } from './SubscriptionCalculator';
+import { ServiceDirectory } from './ServiceDirectory';
+
+// Words that name a tier rather than the service ("YouTube Premium" is YouTube)
+const PLAN_WORDS = ['premium', 'plus', 'pro', 'family', 'individual', 'student', 'duo', 'basic', 'standard', 'subscription', 'membership'];
+
+// How many active services in a category count as overlapping
+const OVERLAP_THRESHOLDS: Partial<Record<SubscriptionCategory, number>> = {
+  music: 2,
+  cloud: 2,
+  productivity: 2,
+  streaming: 3,
+};
+
+export class OverlapDetector {
+  /**
+   * Comparable form of a service name: lowercase, no punctuation or plan tier
+   */
+  static normalizeServiceName(name: string): string {
+    const words = name
+      .toLowerCase()
+      .replace(/\+/g, ' plus ')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean);
+    const core = words.filter(word => !PLAN_WORDS.includes(word));
+    return (core.length > 0 ? core : words).join('');
+  }
+
+  /**
+   * All duplicate and overlap findings among subscriptions that keep renewing
+   */
+  static detect(subscriptions: Subscription[]): OverlapInsight[] {
+    const active = subscriptions.filter(sub => SubscriptionCalculator.isRenewing(sub));
+    const duplicates = this.findDuplicates(active);
+
+    // A duplicate pair shouldn't also be reported as an overlap
+    const duplicated = new Set(duplicates.flatMap(insight => insight.subscriptionIds.slice(1)));
+    const overlaps = this.findOverlaps(active.filter(sub => !duplicated.has(sub.id)));
+
+    return [...duplicates, ...overlaps];
+  }
+
+  /**
+   * Key shared by every entry for the same service: its catalog entry when
+   * it has one (by id, name or alias), otherwise the normalized name
+   */
+  static getServiceKey(subscription: Subscription): string {
+    const name = this.normalizeServiceName(subscription.serviceName);
+    const service =
+      ServiceDirectory.findForSubscription(subscription) ??
+      ServiceDirectory.getServices().find(entry =>
+        [entry.name, ...entry.aliases].some(alias => this.normalizeServiceName(alias) === name)
+      );
+    return service ? `catalog:${service.id}` : `name:${name}`;
+  }
+
+  private static findDuplicates(subscriptions: Subscription[]): OverlapInsight[] {
+    const sameService = this.groupBy(subscriptions, sub => this.getServiceKey(sub));
+
+    // Entries under different names can still be the same plan billed twice
+    const grouped = new Set(sameService.flat().map(sub => sub.id));
+    const sameCharge = this.groupBy(
+      subscriptions.filter(sub => !grouped.has(sub.id)),
+      sub => this.getChargeKey(sub)
+    );
+
+    return [
+      ...sameService.map(group => this.toServiceDuplicate(group)),
+      ...sameCharge.map(group => this.toChargeDuplicate(group)),
+    ];
+  }
+
+  private static toServiceDuplicate(group: Subscription[]): OverlapInsight {
+    const paymentMethods = new Set(group.map(sub => sub.paymentMethod?.name).filter(Boolean));
+    const samePaymentMethod = paymentMethods.size === 1 && group.every(sub => sub.paymentMethod);
+
+    return {
+      id: this.getInsightId('duplicate', group),
+      kind: 'duplicate',
+      subscriptionIds: group.map(sub => sub.id),
+      title: `${group[0].serviceName} added ${group.length} times`,
+      message: samePaymentMethod
+        ? `All charged to ${group[0].paymentMethod!.name}. You may be paying for it twice.`
+        : 'Remove the extra entry, or cancel one if you really have two plans.',
+    };
+  }
+
+  private static toChargeDuplicate(group: Subscription[]): OverlapInsight {
+    const [first] = group;
+    return {
+      id: this.getInsightId('duplicate', group),
+      kind: 'duplicate',
+      subscriptionIds: group.map(sub => sub.id),
+      title: `${group.map(sub => sub.serviceName).join(' and ')} may be the same subscription`,
+      message: `Each charges ${SubscriptionCalculator.formatCurrency(SubscriptionCalculator.getChargeAmount(first))} ${SubscriptionCalculator.formatRecurrence(first.recurrence).toLowerCase()} to ${first.paymentMethod!.name}.`,
+    };
+  }
+
+  /**
+   * Same payment method, category, cycle and current price; null without a
+   * payment method since the price alone is too weak a match
+   */
+  private static getChargeKey(subscription: Subscription): string | null {
+    const paymentMethod = subscription.paymentMethod?.name.trim().toLowerCase();
+    if (!paymentMethod) return null;
+
+    const { interval, unit } = subscription.recurrence;
+    const { minor, currency } = SubscriptionCalculator.getChargeAmount(subscription);
+    return [
+      paymentMethod,
+      SubscriptionCalculator.getCategory(subscription),
+      `${interval}${unit}`,
+      `${minor}${currency}`,
+    ].join('|');
+  }
+
+  /**
+   * Groups of two or more subscriptions sharing a key (null keys never match)
+   */
+  private static groupBy(
+    subscriptions: Subscription[],
+    getKey: (subscription: Subscription) => string | null
+  ): Subscription[][] {
+    const groups = new Map<string, Subscription[]>();
+    subscriptions.forEach(sub => {
+      const key = getKey(sub);
+      if (key === null) return;
+      groups.set(key, [...(groups.get(key) ?? []), sub]);
+    });
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+
+  private static findOverlaps(subscriptions: Subscription[]): OverlapInsight[] {
+    return (Object.keys(OVERLAP_THRESHOLDS) as SubscriptionCategory[])
+      .map(category => ({
+        category,
+        group: subscriptions.filter(sub => SubscriptionCalculator.getCategory(sub) === category),
+      }))
+      .filter(({ category, group }) => group.length >= OVERLAP_THRESHOLDS[category]!)
+      .map(({ category, group }) => {
+        const label = SUBSCRIPTION_CATEGORIES.find(c => c.value === category)?.label ?? category;
+        return {
+          id: this.getInsightId('overlap', group),
+          kind: 'overlap' as const,
+          subscriptionIds: group.map(sub => sub.id),
+          category,
+          title: `${group.length} ${label.toLowerCase()} services`,
+          message: `${group.map(sub => sub.serviceName).join(', ')} do similar things. Do you need all of them?`,
+        };
+      });
+  }
+
+  // Same subscriptions -> same id, so a dismissal sticks until the group changes
+  private static getInsightId(kind: OverlapInsight['kind'], group: Subscription[]): string {
+    return `${kind}_${group.map(sub => sub.id).sort().join('_')}`;
+  }
+}
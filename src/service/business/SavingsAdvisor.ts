@@ -0,0 +1,110 @@
+/**
+ * Savings Advisor
+ * 
+ * Compares what each subscription costs on its current plan with the other
+ * plans the service offers (from the service catalog or entered by the user)
+ * and reports how much switching would save per year.
+ */
+
+import {
+  Subscription,
+  BillingPlan,
+  Recurrence,
+  Currency,
+  Money,
+  SavingsOpportunity,
+} from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { DEFAULT_EXCHANGE_RATES } from '@/service/exchangeRates/BundledExchangeRateProvider';
+import { compare, multiply, subtract } from '@/utils/money';
+import { SubscriptionCalculator } from './SubscriptionCalculator';
+import { ServiceDirectory } from './ServiceDirectory';
+
+export class SavingsAdvisor {
+  /**
+   * Cost of one year on a plan
+   */
+  static getYearlyCost(amount: Money, recurrence: Recurrence): Money {
+    return multiply(amount, SubscriptionCalculator.getChargesPerYear(recurrence));
+  }
+
+  /**
+   * Other plans for a subscription, in its currency: the catalog's plans for
+   * the same tier of the service plus anything the user entered
+   */
+  static getAlternatives(subscription: Subscription): { plan: BillingPlan; source: 'catalog' | 'user' }[] {
+    const service = ServiceDirectory.findForSubscription(subscription);
+    const plans = service ? ServiceDirectory.getPlans(service, subscription.currency) : [];
+    // Without knowing the tier, only compare when the service sells a single one
+    const tier = subscription.catalogPlanId
+      ? plans.find(plan => plan.id === subscription.catalogPlanId)?.tier
+      : plans[0]?.tier;
+    const catalogPlans =
+      subscription.catalogPlanId || plans.every(plan => plan.tier === tier)
+        ? plans.filter(plan => plan.tier === tier && plan.id !== subscription.catalogPlanId)
+        : [];
+
+    return [
+      ...catalogPlans.map(plan => ({ plan, source: 'catalog' as const })),
+      ...(subscription.alternativePlans ?? []).map(plan => ({ plan, source: 'user' as const })),
+    ].filter(
+      ({ plan }) =>
+        plan.amount.currency === subscription.currency &&
+        !this.isSamePlan(plan, subscription)
+    );
+  }
+
+  /**
+   * Cheaper plans for one subscription, biggest yearly saving first
+   */
+  static getOpportunities(
+    subscription: Subscription,
+    targetCurrency: Currency = subscription.currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): SavingsOpportunity[] {
+    if (!SubscriptionCalculator.isRenewing(subscription) || subscription.isOneTime) return [];
+
+    const currentYearlyCost = this.getYearlyCost(
+      SubscriptionCalculator.getChargeAmount(subscription),
+      subscription.recurrence
+    );
+
+    return this.getAlternatives(subscription)
+      .map(({ plan, source }) => {
+        const planYearlyCost = this.getYearlyCost(plan.amount, plan.recurrence);
+        const yearlySavings = subtract(currentYearlyCost, planYearlyCost);
+        return {
+          subscription,
+          plan,
+          source,
+          currentYearlyCost,
+          planYearlyCost,
+          yearlySavings,
+          convertedSavings: SubscriptionCalculator.convertCurrency(yearlySavings, targetCurrency, rates),
+        };
+      })
+      .filter(opportunity => opportunity.yearlySavings.minor > 0)
+      .sort((a, b) => compare(b.yearlySavings, a.yearlySavings));
+  }
+
+  /**
+   * The best switch per subscription across all of them, biggest saving first
+   */
+  static getTopOpportunities(
+    subscriptions: Subscription[],
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    limit: number = 3
+  ): SavingsOpportunity[] {
+    return subscriptions
+      .filter(sub => !sub.isDeleted && SubscriptionCalculator.canConvert(sub.currency, targetCurrency, rates))
+      .map(sub => this.getOpportunities(sub, targetCurrency, rates)[0])
+      .filter((opportunity): opportunity is SavingsOpportunity => !!opportunity)
+      .sort((a, b) => compare(b.convertedSavings, a.convertedSavings))
+      .slice(0, limit);
+  }
+
+  private static isSamePlan(plan: BillingPlan, subscription: Subscription): boolean {
+    return SubscriptionCalculator.isSameRecurrence(plan.recurrence, subscription.recurrence);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Service Directory
+ *
+ * Looks services up in the bundled catalog: search as the user types, match
+ * a subscription back to its service, and pick plan prices for a currency.
+ */
+
+import { BillingPlan, Currency, Money, Subscription } from '@/types/subscription.types';
+import { CatalogPlan, CatalogService, ServiceCatalog } from '@/types/serviceCatalog.types';
+import { BUNDLED_SERVICE_CATALOG } from '@/service/catalog';
+
+const normalize = (text: string): string => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export class ServiceDirectory {
+  private static catalog: ServiceCatalog = BUNDLED_SERVICE_CATALOG;
+
+  /**
+   * Catalog version, for telling apart subscriptions filled in from older data
+   */
+  static getVersion(): number {
+    return this.catalog.version;
+  }
+
+  static getServices(): CatalogService[] {
+    return this.catalog.services;
+  }
+
+  static getService(id: string): CatalogService | null {
+    return this.catalog.services.find(service => service.id === id) ?? null;
+  }
+
+  /**
+   * Service whose name or one of its aliases is exactly `name` (any case)
+   */
+  static find(name: string): CatalogService | null {
+    const query = normalize(name);
+    if (!query) return null;
+    return (
+      this.catalog.services.find(
+        service =>
+          normalize(service.name) === query || service.aliases.some(alias => normalize(alias) === query)
+      ) ?? null
+    );
+  }
+
+  /**
+   * The catalog entry a subscription was picked from, or the one its name matches
+   */
+  static findForSubscription(subscription: Subscription): CatalogService | null {
+    return (
+      (subscription.catalogId ? this.getService(subscription.catalogId) : null) ??
+      this.find(subscription.serviceName)
+    );
+  }
+
+  /**
+   * Services matching what the user typed, best match first: names starting
+   * with the query, then aliases starting with it, then any word or substring
+   */
+  static search(query: string, limit: number = 5): CatalogService[] {
+    const text = normalize(query);
+    if (!text) return [];
+
+    const rank = (service: CatalogService): number => {
+      const names = [service.name, ...service.aliases].map(normalize);
+      if (names[0].startsWith(text)) return 0;
+      if (names.some(name => name.startsWith(text))) return 1;
+      if (names.some(name => name.split(' ').some(word => word.startsWith(text)))) return 2;
+      if (names.some(name => name.includes(text))) return 3;
+      return -1;
+    };
+
+    return this.catalog.services
+      .map(service => ({ service, rank: rank(service) }))
+      .filter(match => match.rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.service.name.localeCompare(b.service.name))
+      .slice(0, limit)
+      .map(match => match.service);
+  }
+
+  /**
+   * List price of a plan in a currency, preferring the given region when the
+   * currency is used in several; null when the plan isn't sold in it
+   */
+  static getPrice(plan: CatalogPlan, currency: Currency, region?: string): Money | null {
+    const prices = plan.prices.filter(entry => entry.price.currency === currency);
+    const match = prices.find(entry => entry.region === region) ?? prices[0];
+    return match?.price ?? null;
+  }
+
+  /**
+   * A service's plans that have a price in the currency, as billing plans
+   */
+  static getPlans(service: CatalogService, currency: Currency): (BillingPlan & { id: string; tier?: string })[] {
+    return service.plans.flatMap(plan => {
+      const amount = this.getPrice(plan, currency);
+      return amount
+        ? [{ id: plan.id, tier: plan.tier, label: plan.label, recurrence: plan.recurrence, amount }]
+        : [];
+    });
+  }
+
+  /**
+   * The plan to fill in when a service is picked: the most common one sold in the currency
+   */
+  static getDefaultPlan(service: CatalogService, currency: Currency): CatalogPlan | null {
+    return service.plans.find(plan => this.getPrice(plan, currency)) ?? null;
+  }
+
+  /**
+   * Where to go to cancel: the cancellation page, else account settings
+   */
+  static getCancellationUrl(service: CatalogService): string | null {
+    return service.cancelUrl ?? service.manageUrl ?? null;
+  }
+}
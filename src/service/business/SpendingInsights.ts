@@ -0,0 +1,194 @@
+/**
+ * Spending Insights
+ *
+ * Year-in-review numbers worked out from the subscription list and each
+ * subscription's price history: what was spent, where it went, what got
+ * more expensive, and what was added or cancelled. Also renders the review
+ * as plain text for sharing.
+ */
+
+import {
+  Subscription,
+  SubscriptionCategory,
+  Currency,
+  Money,
+  PriceIncrease,
+  YearInReview,
+  SUBSCRIPTION_CATEGORIES,
+} from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { DEFAULT_EXCHANGE_RATES } from '@/service/exchangeRates/BundledExchangeRateProvider';
+import { differenceInDays, parseCalendarDate, startOfDay } from '@/utils/calendarDate';
+import { add, compare, multiply, subtract, sum, zero } from '@/utils/money';
+import { SubscriptionCalculator } from './SubscriptionCalculator';
+
+// Payment method label for subscriptions without one
+const UNSPECIFIED_PAYMENT_METHOD = 'Unspecified';
+
+// How many price increases the review lists
+const MAX_PRICE_INCREASES = 5;
+
+export class SpendingInsights {
+  /**
+   * Everything charged and changed in a calendar year, up to `date` when the
+   * year isn't over yet
+   */
+  static getYearInReview(
+    subscriptions: Subscription[],
+    year: number,
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    date: Date = new Date()
+  ): YearInReview {
+    const from = new Date(year, 0, 1);
+    const yearEnd = new Date(year, 11, 31);
+    const to = startOfDay(date) < yearEnd ? startOfDay(date) : yearEnd;
+    const tracked = subscriptions.filter(sub => !sub.isDeleted);
+
+    const byCategory = new Map<SubscriptionCategory, Money>();
+    const byPaymentMethod = new Map<string, Money>();
+    let totalSpent = zero(targetCurrency);
+    let chargeCount = 0;
+
+    tracked.forEach(sub => {
+      // No rate into the display currency: left out of the totals
+      if (!SubscriptionCalculator.canConvert(sub.currency, targetCurrency, rates)) return;
+      const charges = SubscriptionCalculator.getChargesInRange(sub, from, to);
+      if (charges.length === 0) return;
+
+      const spent = SubscriptionCalculator.convertCurrency(
+        sum(charges.map(charge => SubscriptionCalculator.getChargeTotal(sub, charge)), sub.currency),
+        targetCurrency,
+        rates
+      );
+      const category = SubscriptionCalculator.getCategory(sub);
+      const paymentMethod = sub.paymentMethod?.name.trim() || UNSPECIFIED_PAYMENT_METHOD;
+
+      totalSpent = add(totalSpent, spent);
+      chargeCount += charges.length;
+      byCategory.set(category, add(byCategory.get(category) ?? zero(targetCurrency), spent));
+      byPaymentMethod.set(paymentMethod, add(byPaymentMethod.get(paymentMethod) ?? zero(targetCurrency), spent));
+    });
+
+    const days = differenceInDays(from, to) + 1;
+    const inYear = (day: string | undefined) => {
+      if (!day) return false;
+      const parsed = parseCalendarDate(day);
+      return parsed >= from && parsed <= to;
+    };
+
+    return {
+      year,
+      currency: targetCurrency,
+      from,
+      to,
+      totalSpent,
+      averagePerDay: days > 0 ? multiply(totalSpent, 1 / days) : zero(targetCurrency),
+      chargeCount,
+      priceIncreases: this.getPriceIncreases(tracked, from, to, targetCurrency, rates).slice(
+        0,
+        MAX_PRICE_INCREASES
+      ),
+      newSubscriptions: tracked.filter(sub => inYear(sub.startDate)),
+      cancellations: tracked.filter(sub => inYear(sub.cancelledOn)),
+      spendByCategory: [...byCategory.entries()]
+        .map(([category, amount]) => ({ category, amount }))
+        .sort((a, b) => compare(b.amount, a.amount)),
+      spendByPaymentMethod: [...byPaymentMethod.entries()]
+        .map(([paymentMethod, amount]) => ({ paymentMethod, amount }))
+        .sort((a, b) => compare(b.amount, a.amount)),
+    };
+  }
+
+  /**
+   * Price rises recorded in the subscriptions' price history between two
+   * dates, biggest yearly impact first
+   */
+  static getPriceIncreases(
+    subscriptions: Subscription[],
+    from: Date,
+    to: Date,
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): PriceIncrease[] {
+    const increases: PriceIncrease[] = [];
+
+    subscriptions.forEach(sub => {
+      if (!SubscriptionCalculator.canConvert(sub.currency, targetCurrency, rates)) return;
+      const history = sub.priceHistory ?? [];
+      history.forEach((change, index) => {
+        const previous = history[index - 1]?.amount;
+        const effectiveFrom = parseCalendarDate(change.effectiveFrom);
+        if (!previous || previous.currency !== change.amount.currency) return;
+        if (effectiveFrom < from || effectiveFrom > to) return;
+        if (compare(change.amount, previous) <= 0) return;
+
+        const yearlyIncrease = multiply(
+          subtract(change.amount, previous),
+          SubscriptionCalculator.getChargesPerYear(sub.recurrence)
+        );
+        increases.push({
+          subscription: sub,
+          effectiveFrom,
+          previous,
+          current: change.amount,
+          percent: previous.minor > 0 ? ((change.amount.minor - previous.minor) / previous.minor) * 100 : 0,
+          yearlyImpact: SubscriptionCalculator.convertCurrency(yearlyIncrease, targetCurrency, rates),
+        });
+      });
+    });
+
+    return increases.sort((a, b) => compare(b.yearlyImpact, a.yearlyImpact));
+  }
+
+  /**
+   * The review as plain text, for sharing or exporting
+   */
+  static toPlainText(review: YearInReview, locale?: string): string {
+    const format = (amount: Money) => SubscriptionCalculator.formatCurrency(amount, locale);
+    const formatDay = (day: Date) =>
+      day.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    const categoryLabel = (category: SubscriptionCategory) =>
+      SUBSCRIPTION_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+    const lines = [
+      `Subscriptions: ${review.year} in review`,
+      `${formatDay(review.from)} - ${formatDay(review.to)}`,
+      '',
+      `Total spent: ${format(review.totalSpent)} (${review.chargeCount} ${review.chargeCount === 1 ? 'charge' : 'charges'})`,
+      `Average per day: ${format(review.averagePerDay)}`,
+    ];
+
+    const section = (title: string, items: string[]) => {
+      if (items.length === 0) return;
+      lines.push('', title, ...items.map(item => `- ${item}`));
+    };
+
+    section(
+      'Spend by category',
+      review.spendByCategory.map(({ category, amount }) => `${categoryLabel(category)}: ${format(amount)}`)
+    );
+    section(
+      'Spend by payment method',
+      review.spendByPaymentMethod.map(({ paymentMethod, amount }) => `${paymentMethod}: ${format(amount)}`)
+    );
+    section(
+      'Biggest price increases',
+      review.priceIncreases.map(
+        increase =>
+          `${increase.subscription.serviceName}: ${format(increase.previous)} -> ${format(increase.current)} ` +
+          `(+${Math.round(increase.percent)}%, ${format(increase.yearlyImpact)} more a year)`
+      )
+    );
+    section(
+      'New subscriptions',
+      review.newSubscriptions.map(sub => sub.serviceName)
+    );
+    section(
+      'Cancelled',
+      review.cancellations.map(sub => sub.serviceName)
+    );
+
+    return lines.join('\n');
+  }
+}
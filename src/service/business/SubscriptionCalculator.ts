@@ -2,238 +2,1323 @@
  * Subscription Calculator
  * 
  * Handles all business logic related to subscription calculations:
- * - Next billing dates
- * - Monthly spend conversion
+ * - Billing schedule (next, previous and in-range charge dates)
+ * - Recurrence (every N days, weeks, months or years)
+ * - Monthly spend conversion (into the user's currency)
+ * - Cash-flow forecasts and per-day charge calendars
+ * - Spend per category
+ * - Split costs
+ * - Budgets
+ * - Matching the schedule against recorded payments
  * - Cycle calculations
+ * - Free trials
+ * - Price history
+ * - Proration for mid-cycle plan changes
+ * - Tax and fees
+ * - Pauses
+ * - Lifecycle status (cancellations, ended and archived plans)
+ * - Fixed-term contracts (renewals and notice deadlines)
  * - Reminder dates
+ *
+ * Stored billing dates are calendar days ('YYYY-MM-DD'); every method works
+ * on local-midnight Dates so results don't depend on the device timezone.
+ * Amounts are Money (integer minor units), rounded once wherever a charge is
+ * scaled, split or converted.
  */
 
-import { Subscription, BillingFrequency, Currency } from '@/types/subscription.types';
+import {
+  Subscription,
+  Money,
+  SubscriptionStatus,
+  Recurrence,
+  Currency,
+  PriceChange,
+  PauseInterval,
+  MonthEndPolicy,
+  ForecastCharge,
+  MonthForecast,
+  DayCharges,
+  SubscriptionCategory,
+  SplitMember,
+  MemberShare,
+  ChargeBreakdown,
+  ProrationResult,
+  SpendView,
+  BudgetStatus,
+  AppSettings,
+  RECURRENCE_PRESETS,
+} from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { ChargeRecord } from '@/types/ledger.types';
+import { DEFAULT_EXCHANGE_RATES } from '@/service/exchangeRates/BundledExchangeRateProvider';
+import {
+  addDays,
+  differenceInDays,
+  parseCalendarDate,
+  startOfDay,
+  toCalendarDate,
+} from '@/utils/calendarDate';
+import { formatMoney } from '@/utils/currency';
+import {
+  add,
+  allocate,
+  compare,
+  fromMajor,
+  maxMoney,
+  minMoney,
+  multiply,
+  subtract,
+  sum,
+  toMajor,
+  zero,
+} from '@/utils/money';
+import { ServiceDirectory } from './ServiceDirectory';
+
+// Safety cap on occurrences walked per query (guards against bad data looping forever)
+const MAX_OCCURRENCES = 5000;
+
+// Average month length over the Gregorian cycle, for day- and week-based plans
+export const DAYS_PER_MONTH = 365.2425 / 12;
 
 export class SubscriptionCalculator {
+  // ===== Billing Schedule =====
+
   /**
-   * Calculate the next billing date for a subscription
+   * First charge date: the first billing day on or after the start date
+   * (or the trial end, for subscriptions that start with a free trial).
+   * Day- and week-based plans are anchored on that date itself.
    */
-  static getNextBillingDate(subscription: Subscription): Date {
-    const today = new Date();
-    const startDate = new Date(subscription.startDate);
-    const billingDay = subscription.billingDate;
+  static getFirstBillingDate(subscription: Subscription): Date {
+    const start = this.getTrialEndDate(subscription) ?? parseCalendarDate(subscription.startDate);
 
-    // If subscription has ended (one-time with cycle limit)
-    if (subscription.isOneTime && subscription.cycleLimit) {
-      const endDate = this.getSubscriptionEndDate(subscription);
-      if (today > endDate) {
-        return endDate; // Already ended
-      }
+    if (!this.isCalendarMonthBased(subscription.recurrence)) {
+      return start;
+    }
+
+    const policy = this.getMonthEndPolicy(subscription);
+    const first = this.getBillingDayInMonth(start.getFullYear(), start.getMonth(), subscription.billingDate, policy);
+    if (first < start) {
+      return this.getBillingDayInMonth(start.getFullYear(), start.getMonth() + 1, subscription.billingDate, policy);
     }
+    return first;
+  }
 
-    // Calculate next occurrence based on frequency
-    let nextDate = new Date(today.getFullYear(), today.getMonth(), billingDay);
+  static getMonthEndPolicy(subscription: Subscription): MonthEndPolicy {
+    return subscription.monthEndPolicy ?? 'clamp';
+  }
 
-    // If billing day is in the past this month, move to next cycle
-    if (nextDate <= today) {
-      nextDate = this.addBillingCycle(nextDate, subscription.frequency, subscription.customFrequencyDays);
+  /**
+   * Date of the Nth charge (0-based), ignoring the cycle limit so it can also
+   * answer "when would the next cycle have started"
+   */
+  static getChargeDate(subscription: Subscription, index: number): Date {
+    let chargeDate = this.getFirstBillingDate(subscription);
+    this.walkCharges(
+      subscription,
+      (date, chargeIndex) => {
+        chargeDate = date;
+        return chargeIndex < index;
+      },
+      true
+    );
+    return chargeDate;
+  }
+
+  /**
+   * Total number of charges, or null for open-ended subscriptions
+   */
+  static getTotalCharges(subscription: Subscription): number | null {
+    if (subscription.isOneTime && subscription.cycleLimit) {
+      return subscription.cycleLimit;
     }
+    return null;
+  }
+
+  /**
+   * All charge dates between `from` and `to` (both inclusive, by calendar day)
+   */
+  static getChargesInRange(subscription: Subscription, from: Date, to: Date): Date[] {
+    const rangeStart = startOfDay(from);
+    const rangeEnd = startOfDay(to);
+    const charges: Date[] = [];
 
-    return nextDate;
+    this.walkCharges(subscription, (date) => {
+      if (date > rangeEnd) return false;
+      if (date >= rangeStart) charges.push(date);
+      return true;
+    });
+
+    return charges;
+  }
+
+  /**
+   * Next `count` charge dates on or after `from` (a charge due today is included)
+   */
+  static getUpcomingChargeDates(subscription: Subscription, count: number, from: Date = new Date()): Date[] {
+    const rangeStart = startOfDay(from);
+    const charges: Date[] = [];
+    if (count <= 0) return charges;
+
+    this.walkCharges(subscription, (date) => {
+      if (date >= rangeStart) charges.push(date);
+      return charges.length < count;
+    });
+
+    return charges;
+  }
+
+  /**
+   * Most recent charge strictly before `from`, or null if nothing has been charged yet
+   */
+  static getPreviousBillingDate(subscription: Subscription, from: Date = new Date()): Date | null {
+    const rangeStart = startOfDay(from);
+    let previous: Date | null = null;
+
+    this.walkCharges(subscription, (date) => {
+      if (date >= rangeStart) return false;
+      previous = date;
+      return true;
+    });
+
+    return previous;
+  }
+
+  /**
+   * Calculate the next billing date for a subscription
+   */
+  static getNextBillingDate(subscription: Subscription): Date {
+    const [next] = this.getUpcomingChargeDates(subscription, 1);
+    if (next) return next;
+
+    // No charges left (cancelled, ended, or past the walk limit): the end date,
+    // else the last charge walked
+    return (
+      this.getEndDate(subscription) ??
+      this.getPreviousBillingDate(subscription, addDays(new Date(), 1)) ??
+      this.getFirstBillingDate(subscription)
+    );
+  }
+
+  /**
+   * Subscriptions ordered by their next charge, soonest first. Each date is
+   * worked out once, not on every comparison.
+   */
+  static sortByNextBilling(subscriptions: Subscription[]): Subscription[] {
+    return subscriptions
+      .map(subscription => ({ subscription, next: this.getNextBillingDate(subscription).getTime() }))
+      .sort((a, b) => a.next - b.next)
+      .map(({ subscription }) => subscription);
   }
 
   /**
    * Calculate when a one-time subscription will end
-   * For 6-month subscription, reminder should be at end of 5th month
+   * (one full cycle after the last charge)
    */
   static getSubscriptionEndDate(subscription: Subscription): Date {
     if (!subscription.isOneTime || !subscription.cycleLimit) {
       throw new Error('Not a one-time subscription');
     }
 
-    const startDate = new Date(subscription.startDate);
-    let endDate = new Date(startDate);
-
-    // Add cycles based on frequency
-    for (let i = 0; i < subscription.cycleLimit; i++) {
-      endDate = this.addBillingCycle(endDate, subscription.frequency, subscription.customFrequencyDays);
-    }
-
-    return endDate;
+    return this.getChargeDate(subscription, subscription.cycleLimit);
   }
 
   /**
    * Calculate the "cancellation reminder" date for one-time subscriptions
-   * This is (totalCycles - 1) from start, so user can cancel before final billing
+   * This is (totalCycles - 1) from the first charge, so user can cancel before final billing
    */
   static getCancellationReminderDate(subscription: Subscription): Date | null {
     if (!subscription.isOneTime || !subscription.cycleLimit || subscription.cycleLimit <= 1) {
       return null;
     }
 
-    const startDate = new Date(subscription.startDate);
-    let reminderDate = new Date(startDate);
+    return this.getChargeDate(subscription, subscription.cycleLimit - 1);
+  }
 
-    // Add (cycleLimit - 1) cycles to get reminder at end of second-to-last cycle
-    for (let i = 0; i < subscription.cycleLimit - 1; i++) {
-      reminderDate = this.addBillingCycle(reminderDate, subscription.frequency, subscription.customFrequencyDays);
+  /**
+   * Next charge whose reminder (X days before) hasn't passed yet, with that reminder date
+   */
+  static getNextReminder(subscription: Subscription): { chargeDate: Date; reminderDate: Date } | null {
+    if (!subscription.reminderEnabled) {
+      return null;
     }
 
-    return reminderDate;
+    const today = startOfDay(new Date());
+    const [next, following] = this.getUpcomingChargeDates(subscription, 2);
+
+    for (const chargeDate of [next, following]) {
+      if (!chargeDate) continue;
+      let reminderDate = addDays(chargeDate, -subscription.reminderDaysBefore);
+
+      // No reminders while paused - hold them until billing resumes
+      const pause = this.getActivePause(subscription, reminderDate);
+      if (pause) reminderDate = parseCalendarDate(pause.resumeDate);
+
+      if (reminderDate >= today) return { chargeDate, reminderDate };
+    }
+
+    return null;
   }
 
   /**
-   * Get the reminder date (X days before next billing)
+   * Get the reminder date (X days before billing)
    */
   static getReminderDate(subscription: Subscription): Date | null {
-    if (!subscription.reminderEnabled) {
-      return null;
+    return this.getNextReminder(subscription)?.reminderDate ?? null;
+  }
+
+  // ===== Recurrence =====
+
+  /**
+   * Whether charges land on a day of the month (month/year cycles)
+   * rather than every N days from the first charge
+   */
+  static isCalendarMonthBased(recurrence: Recurrence): boolean {
+    return recurrence.unit === 'month' || recurrence.unit === 'year';
+  }
+
+  /**
+   * Average number of charges per month
+   */
+  static getChargesPerMonth(recurrence: Recurrence): number {
+    const interval = Math.max(recurrence.interval, 1);
+    switch (recurrence.unit) {
+      case 'day':
+        return DAYS_PER_MONTH / interval;
+      case 'week':
+        return DAYS_PER_MONTH / (7 * interval);
+      case 'month':
+        return 1 / interval;
+      case 'year':
+        return 1 / (12 * interval);
+      default:
+        return 1;
     }
+  }
 
-    const nextBilling = this.getNextBillingDate(subscription);
-    const reminderDate = new Date(nextBilling);
-    reminderDate.setDate(reminderDate.getDate() - subscription.reminderDaysBefore);
+  /**
+   * Average number of charges per year (e.g. 13 for every 4 weeks)
+   */
+  static getChargesPerYear(recurrence: Recurrence): number {
+    return this.getChargesPerMonth(recurrence) * 12;
+  }
+
+  static isSameRecurrence(a: Recurrence, b: Recurrence): boolean {
+    return a.interval === b.interval && a.unit === b.unit;
+  }
+
+  /**
+   * Human-readable cycle, e.g. "Monthly", "Bi-weekly", "Every 10 days"
+   */
+  static formatRecurrence(recurrence: Recurrence): string {
+    const preset = RECURRENCE_PRESETS.find(p => this.isSameRecurrence(p.recurrence, recurrence));
+    if (preset) return preset.label;
+    if (recurrence.interval === 1) {
+      return recurrence.unit === 'day' ? 'Daily' : `Every ${recurrence.unit}`;
+    }
+    return `Every ${recurrence.interval} ${recurrence.unit}s`;
+  }
+
+  /**
+   * Length of a fixed number of cycles, e.g. "3 months", "1 year", "4 cycles, quarterly"
+   */
+  static formatCycleCount(count: number, recurrence: Recurrence): string {
+    if (recurrence.interval === 1) {
+      return `${count} ${recurrence.unit}${count === 1 ? '' : 's'}`;
+    }
+    return `${count} ${count === 1 ? 'cycle' : 'cycles'}, ${this.formatRecurrence(recurrence).toLowerCase()}`;
+  }
+
+  // ===== Free Trials =====
 
-    return reminderDate;
+  /**
+   * Day the free trial ends and paid billing starts, or null if there is no trial
+   */
+  static getTrialEndDate(subscription: Subscription): Date | null {
+    if (subscription.trialEndDate) {
+      return parseCalendarDate(subscription.trialEndDate);
+    }
+    if (subscription.trialDays && subscription.trialDays > 0) {
+      return addDays(parseCalendarDate(subscription.startDate), subscription.trialDays);
+    }
+    return null;
+  }
+
+  /**
+   * Check if the subscription is still inside its free trial on a given date
+   */
+  static isInTrial(subscription: Subscription, date: Date = new Date()): boolean {
+    const trialEnd = this.getTrialEndDate(subscription);
+    return !!trialEnd && startOfDay(date) < trialEnd;
+  }
+
+  // ===== Pauses =====
+
+  /**
+   * Pause in effect on a given date, if any
+   */
+  static getActivePause(subscription: Subscription, date: Date = new Date()): PauseInterval | null {
+    const day = startOfDay(date);
+    return (
+      subscription.pauses?.find(
+        pause =>
+          parseCalendarDate(pause.startDate) <= day &&
+          day < parseCalendarDate(pause.resumeDate)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Check if billing is paused on a given date
+   */
+  static isPaused(subscription: Subscription, date: Date = new Date()): boolean {
+    return this.getActivePause(subscription, date) !== null;
+  }
+
+  /**
+   * Pause billing from `today` until `resumeDate`, or pass null to resume now.
+   * Returns the updated pause list; an ongoing pause is extended/shortened in place.
+   */
+  static setPause(subscription: Subscription, resumeDate: Date | null, today: Date = new Date()): PauseInterval[] {
+    const day = startOfDay(today);
+    const activePause = this.getActivePause(subscription, day);
+    const others = (subscription.pauses ?? []).filter(pause => pause !== activePause);
+    const startDate = activePause ? parseCalendarDate(activePause.startDate) : day;
+    const resume = resumeDate ? startOfDay(resumeDate) : day;
+
+    // Resuming on (or before) the first paused day means it never paused
+    if (resume <= startDate) return others;
+
+    // 'YYYY-MM-DD' strings sort chronologically
+    return [...others, { startDate: toCalendarDate(startDate), resumeDate: toCalendarDate(resume) }].sort(
+      (a, b) => a.startDate.localeCompare(b.startDate)
+    );
+  }
+
+  // ===== Lifecycle =====
+
+  /**
+   * Status on a given date. A cancellation outranks trials and pauses since
+   * nothing more will be charged either way.
+   */
+  static getStatus(subscription: Subscription, date: Date = new Date()): SubscriptionStatus {
+    if (subscription.archivedOn) return 'archived';
+
+    const endDate = this.getEndDate(subscription);
+    if (endDate && startOfDay(date) >= endDate) return 'ended';
+
+    if (subscription.paidThroughDate) return 'cancellation-pending';
+    if (this.isPaused(subscription, date)) return 'paused';
+    if (this.isInTrial(subscription, date)) return 'trial';
+    return 'active';
+  }
+
+  /**
+   * First day without access: the explicit end date, the day after a
+   * cancellation's paid-through date or the end of a one-time plan, whichever
+   * comes first. Null while the subscription is open-ended.
+   */
+  static getEndDate(subscription: Subscription): Date | null {
+    const ends: Date[] = [];
+    if (subscription.endDate) {
+      ends.push(parseCalendarDate(subscription.endDate));
+    }
+    if (subscription.paidThroughDate) {
+      ends.push(addDays(parseCalendarDate(subscription.paidThroughDate), 1));
+    }
+    if (subscription.isOneTime && subscription.cycleLimit) {
+      ends.push(this.getSubscriptionEndDate(subscription));
+    }
+    if (subscription.contract && !subscription.contract.autoRenew) {
+      ends.push(addDays(parseCalendarDate(subscription.contract.termEndDate), 1));
+    }
+    return ends.length > 0 ? new Date(Math.min(...ends.map(end => end.getTime()))) : null;
+  }
+
+  /**
+   * Whether the subscription keeps charging (i.e. hasn't been cancelled or ended)
+   */
+  static isRenewing(subscription: Subscription, date: Date = new Date()): boolean {
+    if (subscription.isDeleted) return false;
+    const status = this.getStatus(subscription, date);
+    return status === 'active' || status === 'trial' || status === 'paused';
+  }
+
+  /**
+   * Last day already paid for when cancelling on `date`: the end of the first
+   * contract term that notice can still be given for, otherwise the day before
+   * the next charge, or `date` itself if nothing more would be charged
+   */
+  static getDefaultPaidThroughDate(subscription: Subscription, date: Date = new Date()): Date {
+    const uncancelled = { ...subscription, paidThroughDate: undefined, endDate: undefined };
+    const notice = this.getNoticeDeadline(uncancelled, date);
+    if (notice) return notice.termEnd;
+
+    const [next] = this.getUpcomingChargeDates(uncancelled, 1, addDays(date, 1));
+    return next ? addDays(next, -1) : startOfDay(date);
+  }
+
+  /**
+   * Fields to store when the user cancels on `today`. Charges stop after
+   * `paidThroughDate` and the subscription ends the day after.
+   */
+  static cancel(
+    subscription: Subscription,
+    paidThroughDate?: Date,
+    today: Date = new Date()
+  ): Pick<Subscription, 'cancelledOn' | 'paidThroughDate'> {
+    const day = startOfDay(today);
+    const paidThrough = startOfDay(paidThroughDate ?? this.getDefaultPaidThroughDate(subscription, day));
+    return {
+      cancelledOn: toCalendarDate(day),
+      // Cancelling with nothing paid ahead ends access today
+      paidThroughDate: toCalendarDate(paidThrough < day ? addDays(day, -1) : paidThrough),
+    };
+  }
+
+  // ===== Contracts =====
+
+  /**
+   * Last day of the contract term running on `date`. Auto-renewing contracts
+   * roll over by the renewal term; null without a contract or once a
+   * non-renewing one has run out.
+   */
+  static getContractTermEnd(subscription: Subscription, date: Date = new Date()): Date | null {
+    const contract = subscription.contract;
+    if (!contract) return null;
+
+    const day = startOfDay(date);
+    const initialEnd = parseCalendarDate(contract.termEndDate);
+    if (day <= initialEnd) return initialEnd;
+    if (!contract.autoRenew) return null;
+
+    // Each renewal is counted from the initial end so month-end days don't drift
+    for (let renewals = 1; renewals < MAX_OCCURRENCES; renewals++) {
+      const termEnd = this.addBillingCycle(
+        initialEnd,
+        contract.renewalTerm,
+        renewals,
+        'clamp',
+        initialEnd.getDate()
+      );
+      if (termEnd <= initialEnd) return null;
+      if (termEnd >= day) return termEnd;
+    }
+    return null;
+  }
+
+  /**
+   * Next deadline (on or after `date`) for giving notice so an auto-renewing
+   * contract ends instead of renewing, with the term it ends. Null when
+   * nothing is going to renew (no contract, not auto-renewing, or cancelled).
+   */
+  static getNoticeDeadline(
+    subscription: Subscription,
+    date: Date = new Date()
+  ): { deadline: Date; termEnd: Date } | null {
+    const contract = subscription.contract;
+    if (!contract?.autoRenew || subscription.paidThroughDate) return null;
+
+    const day = startOfDay(date);
+    let termEnd = this.getContractTermEnd(subscription, day);
+    for (let terms = 0; termEnd && terms < MAX_OCCURRENCES; terms++) {
+      const deadline = addDays(termEnd, -contract.noticeDays);
+      if (deadline >= day) return { deadline, termEnd };
+      // Too late for this term - the next one
+      termEnd = this.getContractTermEnd(subscription, addDays(termEnd, 1));
+    }
+    return null;
+  }
+
+  // ===== Pricing =====
+
+  /**
+   * Amount charged for a billing cycle on a given date.
+   * Uses the price history when there is one, otherwise the post-trial
+   * price (if set) or the flat amount. The post-trial price takes over from
+   * the trial end until the next recorded change after it.
+   */
+  static getChargeAmount(subscription: Subscription, date: Date = new Date()): Money {
+    const history = this.getPriceSchedule(subscription);
+    if (history.length === 0) {
+      return subscription.postTrialAmount ?? subscription.amount;
+    }
+
+    const day = startOfDay(date);
+    // Dates before the first recorded change use the earliest known price
+    let price = history[0].amount;
+    for (const change of history) {
+      if (parseCalendarDate(change.effectiveFrom) > day) break;
+      price = change.amount;
+    }
+    return price;
+  }
+
+  /**
+   * Tax and fees on top of a listed price. Percentage fees apply to the
+   * price including tax (that's what the card network sees).
+   */
+  static getChargeBreakdown(
+    subscription: Subscription,
+    base: Money = this.getChargeAmount(subscription)
+  ): ChargeBreakdown {
+    const tax = multiply(base, (subscription.taxRate ?? 0) / 100);
+    const taxed = add(base, tax);
+    const fees = sum(
+      (subscription.fees ?? []).map(fee =>
+        fee.type === 'percent' ? multiply(taxed, fee.value / 100) : fee.amount
+      ),
+      base.currency
+    );
+
+    return { base, tax, fees, total: add(taxed, fees) };
+  }
+
+  /**
+   * All-in amount of the charge on a given date (price in effect + tax + fees)
+   */
+  static getChargeTotal(subscription: Subscription, date: Date = new Date()): Money {
+    return this.getChargeBreakdown(subscription, this.getChargeAmount(subscription, date)).total;
+  }
+
+  /**
+   * Record a new price, returning the updated history.
+   * The first change seeds the history with the price that applied until now;
+   * changes scheduled on or after the new effective date are superseded.
+   */
+  static addPriceChange(subscription: Subscription, amount: Money, effectiveFrom: Date): PriceChange[] {
+    const from = startOfDay(effectiveFrom);
+    const history: PriceChange[] =
+      subscription.priceHistory && subscription.priceHistory.length > 0
+        ? subscription.priceHistory
+        : [{
+            amount: this.getChargeAmount(subscription, from),
+            effectiveFrom: subscription.startDate,
+          }];
+
+    return [
+      ...history.filter(change => parseCalendarDate(change.effectiveFrom) < from),
+      { amount, effectiveFrom: toCalendarDate(from) },
+    ];
+  }
+
+  /**
+   * Total charged between two dates, each charge at the price in effect on its date
+   */
+  static getSpendInRange(subscription: Subscription, from: Date, to: Date): Money {
+    return sum(
+      this.getChargesInRange(subscription, from, to).map(chargeDate =>
+        this.getChargeTotal(subscription, chargeDate)
+      ),
+      subscription.currency
+    );
   }
 
   /**
    * Calculate days until next billing
    */
   static getDaysUntilBilling(subscription: Subscription): number {
-    const today = new Date();
+    const today = startOfDay(new Date());
     const nextBilling = this.getNextBillingDate(subscription);
-    const diffTime = nextBilling.getTime() - today.getTime();
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  }
-
-  /**
-   * Convert any frequency to monthly equivalent for "Total Monthly Spend" calculation
-   */
-  static getMonthlyEquivalent(subscription: Subscription): number {
-    const { amount, frequency, customFrequencyDays } = subscription;
-
-    switch (frequency) {
-      case 'monthly':
-        return amount;
-      case 'quarterly':
-        return amount / 3;
-      case 'half-yearly':
-        return amount / 6;
-      case 'yearly':
-        return amount / 12;
-      case 'custom':
-        if (customFrequencyDays) {
-          // Convert custom days to monthly (assume 30 days/month)
-          return (amount * 30) / customFrequencyDays;
-        }
-        return amount;
-      default:
-        return amount;
+    return differenceInDays(today, nextBilling);
+  }
+
+  /**
+   * Convert any billing cycle to monthly equivalent (all-in) for "Total Monthly Spend" calculation
+   * Only active subscriptions cost anything going forward: trials, pauses and
+   * cancelled or ended plans count as 0
+   */
+  static getMonthlyEquivalent(
+    subscription: Subscription,
+    date: Date = new Date(),
+    view: SpendView = 'gross'
+  ): Money {
+    if (this.getStatus(subscription, date) !== 'active') return zero(subscription.currency);
+
+    const chargeTotal = this.getChargeTotal(subscription, date);
+    const amount = view === 'my-share' ? this.getMyShare(subscription, chargeTotal) : chargeTotal;
+    return multiply(amount, this.getMonthlyFactor(subscription));
+  }
+
+  /**
+   * Monthly equivalent split into price, tax and fees
+   */
+  static getMonthlyBreakdown(subscription: Subscription, date: Date = new Date()): ChargeBreakdown {
+    if (this.getStatus(subscription, date) !== 'active') {
+      return this.splitLike(zero(subscription.currency));
     }
+
+    const breakdown = this.getChargeBreakdown(subscription, this.getChargeAmount(subscription, date));
+    return this.splitLike(multiply(breakdown.total, this.getMonthlyFactor(subscription)), breakdown);
   }
 
   /**
-   * Calculate total monthly spend across all subscriptions
+   * Sum of monthly breakdowns across subscriptions, in the target currency.
+   * Subscriptions without an exchange rate are left out (see getUnconvertible).
    */
-  static calculateTotalMonthlySpend(subscriptions: Subscription[], targetCurrency: Currency = 'USD'): number {
+  static calculateMonthlyBreakdown(
+    subscriptions: Subscription[],
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    date: Date = new Date()
+  ): ChargeBreakdown {
     return subscriptions
-      .filter(sub => !sub.isDeleted)
-      .reduce((total, sub) => {
-        const monthlyAmount = this.getMonthlyEquivalent(sub);
-        const convertedAmount = this.convertCurrency(monthlyAmount, sub.currency, targetCurrency);
-        return total + monthlyAmount;
-      }, 0);
+      .filter(sub => !sub.isDeleted && this.canConvert(sub.currency, targetCurrency, rates))
+      .reduce((totals, sub) => {
+        const breakdown = this.getMonthlyBreakdown(sub, date);
+        const converted = this.splitLike(
+          this.convertCurrency(breakdown.total, targetCurrency, rates),
+          breakdown
+        );
+        return {
+          base: add(totals.base, converted.base),
+          tax: add(totals.tax, converted.tax),
+          fees: add(totals.fees, converted.fees),
+          total: add(totals.total, converted.total),
+        };
+      }, this.splitLike(zero(targetCurrency)));
+  }
+
+  /**
+   * Calculate total monthly spend across all subscriptions, in the target currency.
+   * Subscriptions without an exchange rate are left out (see getUnconvertible).
+   */
+  static calculateTotalMonthlySpend(
+    subscriptions: Subscription[],
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    date: Date = new Date(),
+    view: SpendView = 'gross'
+  ): Money {
+    return sum(
+      subscriptions
+        .filter(sub => !sub.isDeleted && this.canConvert(sub.currency, targetCurrency, rates))
+        .map(sub => this.convertCurrency(this.getMonthlyEquivalent(sub, date, view), targetCurrency, rates)),
+      targetCurrency
+    );
   }
 
   /**
    * Get subscriptions with billing in the next N days
    */
   static getUpcomingSubscriptions(subscriptions: Subscription[], days: number): Subscription[] {
-    return subscriptions
-      .filter(sub => {
+    const today = new Date();
+    const until = addDays(today, days);
+
+    return this.sortByNextBilling(
+      subscriptions.filter(sub => {
         if (sub.isDeleted) return false;
-        const daysUntil = this.getDaysUntilBilling(sub);
-        return daysUntil >= 0 && daysUntil <= days;
+        return this.getChargesInRange(sub, today, until).length > 0;
       })
-      .sort((a, b) => this.getDaysUntilBilling(a) - this.getDaysUntilBilling(b));
+    );
   }
 
+  // ===== Proration =====
+
   /**
-   * Check if subscription is active (not ended for one-time subscriptions)
+   * Effect of switching from `oldAmount` to `newAmount` (listed prices) on
+   * `changeDate`, part-way through a cycle. The unused share of the old price
+   * is credited and the new price is charged for the rest of the cycle; a net
+   * credit (downgrade) comes off the next charge instead of being paid out.
    */
-  static isActive(subscription: Subscription): boolean {
-    if (subscription.isDeleted) return false;
-    
-    if (subscription.isOneTime && subscription.cycleLimit) {
-      const endDate = this.getSubscriptionEndDate(subscription);
-      return new Date() < endDate;
+  static getProration(
+    subscription: Subscription,
+    oldAmount: Money,
+    newAmount: Money,
+    changeDate: Date = new Date()
+  ): ProrationResult {
+    const day = startOfDay(changeDate);
+    const cycleStart = this.getPreviousBillingDate(subscription, addDays(day, 1));
+    const [nextChargeDate = null] = this.getUpcomingChargeDates(subscription, 1, addDays(day, 1));
+    const newTotal = this.getChargeBreakdown(subscription, newAmount).total;
+    const none = zero(newAmount.currency);
+
+    // Nothing paid for yet (or nothing left to charge), so nothing to prorate
+    if (!cycleStart || !nextChargeDate) {
+      return {
+        changeDate: day,
+        cycleStart,
+        nextChargeDate,
+        remainingFraction: 0,
+        credit: none,
+        extraCharge: none,
+        amountDue: none,
+        nextCharge: nextChargeDate ? newTotal : none,
+      };
     }
 
-    return true;
+    const remainingFraction =
+      differenceInDays(day, nextChargeDate) / differenceInDays(cycleStart, nextChargeDate);
+    const credit = multiply(this.getChargeBreakdown(subscription, oldAmount).total, remainingFraction);
+    const extraCharge = multiply(newTotal, remainingFraction);
+    const net = subtract(extraCharge, credit);
+
+    return {
+      changeDate: day,
+      cycleStart,
+      nextChargeDate,
+      remainingFraction,
+      credit,
+      extraCharge,
+      amountDue: maxMoney(net, none),
+      nextCharge: maxMoney(add(newTotal, minMoney(net, none)), none),
+    };
   }
 
-  // ===== Helper Methods =====
+  // ===== Forecasting =====
+
+  /**
+   * Every charge across subscriptions between two dates (inclusive), at the
+   * price in effect on each date, converted into the target currency
+   */
+  static getChargesForPeriod(
+    subscriptions: Subscription[],
+    from: Date,
+    to: Date,
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): ForecastCharge[] {
+    const charges: ForecastCharge[] = [];
+
+    subscriptions
+      .filter(sub => !sub.isDeleted && this.canConvert(sub.currency, targetCurrency, rates))
+      .forEach(sub => {
+        this.getChargesInRange(sub, from, to).forEach(date => {
+          const amount = this.getChargeTotal(sub, date);
+          charges.push({
+            subscriptionId: sub.id,
+            serviceName: sub.serviceName,
+            serviceIcon: sub.serviceIcon,
+            date,
+            amount,
+            convertedAmount: this.convertCurrency(amount, targetCurrency, rates),
+          });
+        });
+      });
+
+    return charges.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
 
   /**
-   * Add one billing cycle to a date
-   */
-  private static addBillingCycle(date: Date, frequency: BillingFrequency, customDays?: number): Date {
-    const newDate = new Date(date);
-
-    switch (frequency) {
-      case 'monthly':
-        newDate.setMonth(newDate.getMonth() + 1);
-        break;
-      case 'quarterly':
-        newDate.setMonth(newDate.getMonth() + 3);
-        break;
-      case 'half-yearly':
-        newDate.setMonth(newDate.getMonth() + 6);
-        break;
-      case 'yearly':
-        newDate.setFullYear(newDate.getFullYear() + 1);
-        break;
-      case 'custom':
-        if (customDays) {
-          newDate.setDate(newDate.getDate() + customDays);
-        }
-        break;
+   * Month-by-month forecast of actual charges, starting with the rest of the
+   * current month. Quarterly/yearly charges land in their own month, and
+   * one-time plans stop contributing once their cycles run out.
+   */
+  static getCashFlowForecast(
+    subscriptions: Subscription[],
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    months: number = 12,
+    from: Date = new Date()
+  ): MonthForecast[] {
+    const forecast: MonthForecast[] = [];
+
+    for (let offset = 0; offset < months; offset++) {
+      const month = new Date(from.getFullYear(), from.getMonth() + offset, 1);
+      const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+      const charges = this.getChargesForPeriod(
+        subscriptions,
+        offset === 0 ? from : month,
+        monthEnd,
+        targetCurrency,
+        rates
+      );
+
+      forecast.push({
+        month,
+        currency: targetCurrency,
+        total: sum(charges.map(charge => charge.convertedAmount), targetCurrency),
+        charges,
+      });
     }
 
-    return newDate;
+    return forecast;
   }
 
   /**
-   * Simple currency conversion (placeholder - in production, use real exchange rates)
+   * Charges in the calendar month containing `month`, grouped by day (days
+   * without charges are left out), past days included
    */
-  private static convertCurrency(amount: number, from: Currency, to: Currency): number {
-    if (from === to) return amount;
+  static getChargesByDay(
+    subscriptions: Subscription[],
+    month: Date,
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): DayCharges[] {
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    const days = new Map<number, DayCharges>();
+
+    this.getChargesForPeriod(subscriptions, monthStart, monthEnd, targetCurrency, rates).forEach(charge => {
+      const day = days.get(charge.date.getDate()) ?? {
+        date: startOfDay(charge.date),
+        total: zero(targetCurrency),
+        charges: [],
+      };
+      day.total = add(day.total, charge.convertedAmount);
+      day.charges.push(charge);
+      days.set(charge.date.getDate(), day);
+    });
 
-    // Simplified exchange rates (hardcoded for now)
-    // In production, fetch from API like exchangerate-api.com
-    const rates: Record<Currency, number> = {
-      USD: 1,
-      INR: 83.0,
-      EUR: 0.92,
-      GBP: 0.79,
-      AUD: 1.52,
+    return [...days.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  // ===== Categories =====
+
+  /**
+   * Category a subscription falls under ('other' when not set)
+   */
+  static getCategory(subscription: Subscription): SubscriptionCategory {
+    return subscription.category ?? 'other';
+  }
+
+  /**
+   * Default category for a service name, taken from the service catalog
+   */
+  static getDefaultCategory(serviceName: string): SubscriptionCategory {
+    return ServiceDirectory.find(serviceName)?.category ?? 'other';
+  }
+
+  /**
+   * Monthly equivalent spend grouped by category, in the target currency.
+   * Categories without subscriptions are left out.
+   */
+  static getSpendByCategory(
+    subscriptions: Subscription[],
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    date: Date = new Date()
+  ): Partial<Record<SubscriptionCategory, Money>> {
+    const spend: Partial<Record<SubscriptionCategory, Money>> = {};
+
+    subscriptions
+      .filter(sub => !sub.isDeleted && this.canConvert(sub.currency, targetCurrency, rates))
+      .forEach(sub => {
+        const category = this.getCategory(sub);
+        const monthlyAmount = this.getMonthlyEquivalent(sub, date);
+        spend[category] = add(
+          spend[category] ?? zero(targetCurrency),
+          this.convertCurrency(monthlyAmount, targetCurrency, rates)
+        );
+      });
+
+    return spend;
+  }
+
+  /**
+   * Normalize free-form tags: trimmed, lowercase, no empties or duplicates
+   */
+  static normalizeTags(tags: string[]): string[] {
+    const normalized = tags.map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    return Array.from(new Set(normalized));
+  }
+
+  // ===== Split Costs =====
+
+  /**
+   * Whether the cost is shared with anyone else
+   */
+  static isSplit(subscription: Subscription): boolean {
+    return (subscription.members?.length ?? 0) > 1;
+  }
+
+  /**
+   * Who pays what of a charge: fixed amounts first (capped at what's left),
+   * then the remainder by share. Shares are allocated in whole minor units,
+   * so they always add up to the charge.
+   */
+  static getSplitBreakdown(
+    subscription: Subscription,
+    amount: Money = this.getChargeTotal(subscription)
+  ): MemberShare[] {
+    const members = subscription.members ?? [];
+    let remaining = amount;
+
+    const owed = new Map<string, Money>();
+    members
+      .filter(member => member.fixedAmount !== undefined)
+      .forEach(member => {
+        const paid = minMoney(member.fixedAmount!, remaining);
+        owed.set(member.id, paid);
+        remaining = subtract(remaining, paid);
+      });
+
+    const sharing = members.filter(member => member.fixedAmount === undefined);
+    allocate(remaining, sharing.map(member => this.getShare(member))).forEach((share, index) =>
+      owed.set(sharing[index].id, share)
+    );
+
+    return members.map(member => ({ member, amount: owed.get(member.id)! }));
+  }
+
+  /**
+   * The user's own part of a charge (all of it when not split)
+   */
+  static getMyShare(
+    subscription: Subscription,
+    amount: Money = this.getChargeTotal(subscription)
+  ): Money {
+    if (!subscription.members?.length) return amount;
+    const mine = this.getSplitBreakdown(subscription, amount).find(share => share.member.isMe);
+    return mine?.amount ?? zero(amount.currency);
+  }
+
+  /**
+   * Who owes what for the charge that opened the current cycle (or the
+   * first charge if billing hasn't started yet)
+   */
+  static getCurrentCycleBreakdown(
+    subscription: Subscription,
+    date: Date = new Date()
+  ): { chargeDate: Date; total: Money; shares: MemberShare[] } {
+    const chargeDate =
+      this.getPreviousBillingDate(subscription, addDays(date, 1)) ??
+      this.getNextBillingDate(subscription);
+    const total = this.getChargeTotal(subscription, chargeDate);
+
+    return {
+      chargeDate,
+      total,
+      shares: this.getSplitBreakdown(subscription, total),
     };
+  }
 
-    // Convert to USD first, then to target currency
-    const inUSD = amount / rates[from];
-    return inUSD * rates[to];
+  private static getShare(member: SplitMember): number {
+    return member.share ?? 1;
   }
 
+  // ===== Budgets =====
+
   /**
-   * Format currency with symbol
+   * How much of a monthly budget is used by a given spend
    */
-  static formatCurrency(amount: number, currency: Currency): string {
-    const symbols: Record<Currency, string> = {
-      USD: '$',
-      INR: '₹',
-      EUR: '€',
-      GBP: '£',
-      AUD: 'A$',
+  static getBudgetStatus(limit: Money, used: Money, category?: SubscriptionCategory): BudgetStatus {
+    return {
+      category,
+      limit,
+      used,
+      remaining: subtract(limit, used),
+      isOverBudget: compare(used, limit) > 0,
     };
+  }
+
+  /**
+   * Overall and per-category budget usage for a set of subscriptions.
+   * Budgets are converted into the target currency; ones without an exchange
+   * rate are left out.
+   */
+  static getBudgets(
+    subscriptions: Subscription[],
+    budgets: Pick<AppSettings, 'monthlyBudget' | 'categoryBudgets'>,
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES,
+    date: Date = new Date()
+  ): { budget?: BudgetStatus; categoryBudgets: BudgetStatus[] } {
+    const total = this.calculateTotalMonthlySpend(subscriptions, targetCurrency, rates, date);
+    const spendByCategory = this.getSpendByCategory(subscriptions, targetCurrency, rates, date);
+    const toLimit = (budget?: Money): Money | null =>
+      budget && budget.minor > 0 && this.canConvert(budget.currency, targetCurrency, rates)
+        ? this.convertCurrency(budget, targetCurrency, rates)
+        : null;
 
-    return `${symbols[currency]}${amount.toFixed(2)}`;
+    const categoryBudgets = (Object.keys(budgets.categoryBudgets ?? {}) as SubscriptionCategory[])
+      .map(category => ({ category, limit: toLimit(budgets.categoryBudgets?.[category]) }))
+      .filter((budget): budget is { category: SubscriptionCategory; limit: Money } => !!budget.limit)
+      .map(({ category, limit }) =>
+        this.getBudgetStatus(limit, spendByCategory[category] ?? zero(targetCurrency), category)
+      );
+
+    const monthlyLimit = toLimit(budgets.monthlyBudget);
+    return {
+      budget: monthlyLimit ? this.getBudgetStatus(monthlyLimit, total) : undefined,
+      categoryBudgets,
+    };
+  }
+
+  /**
+   * Budgets that going from `before` to `after` pushes over the limit
+   * (or further over it). Used to warn when adding or editing a subscription.
+   */
+  static getExceededBudgets(
+    before: Subscription[],
+    after: Subscription[],
+    budgets: Pick<AppSettings, 'monthlyBudget' | 'categoryBudgets'>,
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): BudgetStatus[] {
+    const previous = this.getBudgets(before, budgets, targetCurrency, rates);
+    const next = this.getBudgets(after, budgets, targetCurrency, rates);
+
+    return [next.budget, ...next.categoryBudgets].filter(
+      (status): status is BudgetStatus => {
+        if (!status?.isOverBudget) return false;
+        const old = status.category
+          ? previous.categoryBudgets.find(b => b.category === status.category)
+          : previous.budget;
+        return !old || compare(status.used, old.used) > 0;
+      }
+    );
+  }
+
+  // ===== Ledger =====
+
+  /**
+   * Ledger record settling the charge scheduled on a given date, if any
+   */
+  static findChargeRecord(
+    subscription: Subscription,
+    records: ChargeRecord[],
+    scheduledDate: Date
+  ): ChargeRecord | undefined {
+    const day = toCalendarDate(scheduledDate);
+    return records.find(
+      record => record.subscriptionId === subscription.id && record.scheduledDate === day
+    );
+  }
+
+  /**
+   * Scheduled charges up to `date` that have no ledger record yet. Only looks
+   * back `lookbackDays` and never before the subscription was added.
+   */
+  static getDueCharges(
+    subscription: Subscription,
+    records: ChargeRecord[],
+    date: Date = new Date(),
+    lookbackDays: number = 31
+  ): Date[] {
+    const lookback = addDays(date, -lookbackDays);
+    const added = startOfDay(new Date(subscription.createdAt));
+    const from = added > lookback ? added : lookback;
+
+    return this.getChargesInRange(subscription, from, date).filter(
+      chargeDate => !this.findChargeRecord(subscription, records, chargeDate)
+    );
+  }
+
+  /**
+   * Check if subscription is active (still shown: not ended or archived).
+   * Cancelled subscriptions stay active until their paid-through date.
+   */
+  static isActive(subscription: Subscription, date: Date = new Date()): boolean {
+    if (subscription.isDeleted) return false;
+    const status = this.getStatus(subscription, date);
+    return status !== 'ended' && status !== 'archived';
+  }
+
+  // ===== Helper Methods =====
+
+  /**
+   * Price history with the post-trial price slotted in at the trial end.
+   * Changes recorded on or after that day still win.
+   */
+  private static getPriceSchedule(subscription: Subscription): PriceChange[] {
+    const history = subscription.priceHistory ?? [];
+    const trialEnd = this.getTrialEndDate(subscription);
+    if (history.length === 0 || !subscription.postTrialAmount || !trialEnd) return history;
+
+    const converted: PriceChange = {
+      amount: subscription.postTrialAmount,
+      effectiveFrom: toCalendarDate(trialEnd),
+    };
+    return [
+      ...history.filter(change => parseCalendarDate(change.effectiveFrom) < trialEnd),
+      converted,
+      ...history.filter(change => parseCalendarDate(change.effectiveFrom) >= trialEnd),
+    ];
+  }
+
+  /**
+   * A breakdown of `total` in the proportions of `like` (all of it as base
+   * by default), so the rounded parts still add up to the total
+   */
+  private static splitLike(total: Money, like?: ChargeBreakdown): ChargeBreakdown {
+    const [base, tax, fees] = like
+      ? allocate(total, [like.base.minor, like.tax.minor, like.fees.minor])
+      : [total, zero(total.currency), zero(total.currency)];
+    return { base, tax, fees, total };
+  }
+
+  /**
+   * Share of one charge that falls in an average month
+   */
+  private static getMonthlyFactor(subscription: Subscription): number {
+    return this.getChargesPerMonth(subscription.recurrence);
+  }
+
+  /**
+   * Visit charge dates in order until the visitor returns false or the
+   * schedule runs out (cycle limit reached, cancelled or ended).
+   *
+   * Dates are derived from an anchor charge so repeated month arithmetic
+   * cannot drift. A charge landing on/after a pause start is pushed back by
+   * the pause length and becomes the new anchor for the charges after it.
+   */
+  private static walkCharges(
+    subscription: Subscription,
+    visit: (date: Date, index: number) => boolean,
+    ignoreCycleLimit: boolean = false
+  ): void {
+    const { recurrence } = subscription;
+    const policy = this.getMonthEndPolicy(subscription);
+    const pauses = subscription.pauses ?? [];
+    const total = ignoreCycleLimit ? null : this.getTotalCharges(subscription);
+    const limit = total === null ? MAX_OCCURRENCES : Math.min(total, MAX_OCCURRENCES);
+    const lastDay = ignoreCycleLimit ? null : this.getLastChargeDay(subscription);
+
+    let anchor = this.getFirstBillingDate(subscription);
+    let anchorIndex = 0;
+    let billingDay = subscription.billingDate;
+    let cyclePolicy = policy;
+    let pauseIndex = 0;
+    let previous: Date | null = null;
+
+    for (let index = 0; index < limit; index++) {
+      let date = this.addBillingCycle(
+        anchor,
+        recurrence,
+        index - anchorIndex,
+        cyclePolicy,
+        billingDay
+      );
+
+      while (pauseIndex < pauses.length) {
+        const pauseStart = parseCalendarDate(pauses[pauseIndex].startDate);
+        if (pauseStart > date) break;
+        const pauseDays = differenceInDays(pauseStart, parseCalendarDate(pauses[pauseIndex].resumeDate));
+        date = addDays(date, pauseDays);
+        anchor = date;
+        anchorIndex = index;
+        billingDay = date.getDate();
+        // Last-day plans would snap back to month-end; keep the shifted day instead
+        if (cyclePolicy === 'last-day') cyclePolicy = 'clamp';
+        pauseIndex++;
+      }
+
+      // A cycle that doesn't advance (e.g. an interval of 0) has a single charge
+      if (previous && date <= previous) return;
+      if (lastDay && date > lastDay) return;
+      if (!visit(date, index)) return;
+      previous = date;
+    }
+  }
+
+  /**
+   * Last day a charge can fall on after a cancellation, early end or the
+   * end of a non-renewing contract, if any
+   */
+  private static getLastChargeDay(subscription: Subscription): Date | null {
+    const days: Date[] = [];
+    if (subscription.paidThroughDate) days.push(parseCalendarDate(subscription.paidThroughDate));
+    if (subscription.endDate) days.push(addDays(parseCalendarDate(subscription.endDate), -1));
+    if (subscription.contract && !subscription.contract.autoRenew) {
+      days.push(parseCalendarDate(subscription.contract.termEndDate));
+    }
+    return days.length > 0 ? new Date(Math.min(...days.map(day => day.getTime()))) : null;
+  }
+
+  /**
+   * Add one (or `count`, possibly negative) billing cycles to a date in a single step.
+   * Month-based cycles land on `billingDay`, resolved with the month-end policy,
+   * so a charge on the 31st comes back to the 31st after a short month.
+   */
+  private static addBillingCycle(
+    date: Date,
+    recurrence: Recurrence,
+    count: number = 1,
+    policy: MonthEndPolicy = 'clamp',
+    billingDay: number = date.getDate()
+  ): Date {
+    if (recurrence.unit === 'day' || recurrence.unit === 'week') {
+      const daysPerCycle = recurrence.interval * (recurrence.unit === 'week' ? 7 : 1);
+      return addDays(date, daysPerCycle * count);
+    }
+
+    const monthsPerCycle = recurrence.interval * (recurrence.unit === 'year' ? 12 : 1);
+    // A rolled-forward charge sits on the 1st of the month after the one it belongs to
+    const rolled = policy === 'roll-forward' && date.getDate() < billingDay;
+    const month = date.getMonth() - (rolled ? 1 : 0) + monthsPerCycle * count;
+
+    return this.getBillingDayInMonth(date.getFullYear(), month, billingDay, policy);
+  }
+
+  /**
+   * Resolve a billing day within a month (month may overflow, e.g. 13 = next January)
+   */
+  private static getBillingDayInMonth(year: number, month: number, billingDay: number, policy: MonthEndPolicy): Date {
+    const lastDay = new Date(year, month + 1, 0).getDate();
+
+    if (policy === 'last-day') {
+      return new Date(year, month, lastDay);
+    }
+    if (billingDay <= lastDay) {
+      return new Date(year, month, billingDay);
+    }
+    return policy === 'roll-forward'
+      ? new Date(year, month + 1, 1)
+      : new Date(year, month, lastDay);
+  }
+
+  /**
+   * Whether amounts in one currency can be converted into another, using the
+   * given rate table or the bundled one
+   */
+  static canConvert(
+    from: Currency,
+    to: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): boolean {
+    return from === to || this.getRateTable(from, to, rates) !== null;
+  }
+
+  /**
+   * Subscriptions whose currency has no exchange rate into the target
+   * currency. Converted totals leave these out, so screens should list them.
+   */
+  static getUnconvertible(
+    subscriptions: Subscription[],
+    targetCurrency: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): Subscription[] {
+    return subscriptions.filter(
+      sub => !sub.isDeleted && !this.canConvert(sub.currency, targetCurrency, rates)
+    );
+  }
+
+  /**
+   * Convert between currencies using the given rate table
+   * Falls back to the bundled table for currencies the table doesn't cover,
+   * and throws when neither has a rate for both currencies
+   */
+  static convertCurrency(
+    amount: Money,
+    to: Currency,
+    rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): Money {
+    const from = amount.currency;
+    if (from === to) return amount;
+
+    const table = this.getRateTable(from, to, rates);
+    if (!table) {
+      throw new Error(`No exchange rate between ${from} and ${to}`);
+    }
+    const fromRate = table.rates[from]!;
+    const toRate = table.rates[to]!;
+
+    // Convert to the table's base currency first, then to target currency
+    const inBase = toMajor(amount) / fromRate;
+    return fromMajor(inBase * toRate, to);
+  }
+
+  private static getRateTable(from: Currency, to: Currency, rates: ExchangeRates): ExchangeRates | null {
+    if (rates.rates[from] && rates.rates[to]) return rates;
+    if (DEFAULT_EXCHANGE_RATES.rates[from] && DEFAULT_EXCHANGE_RATES.rates[to]) return DEFAULT_EXCHANGE_RATES;
+    return null;
+  }
+
+  /**
+   * Format currency for the device locale (symbol, grouping and decimals)
+   */
+  static formatCurrency(amount: Money, locale?: string): string {
+    return formatMoney(toMajor(amount), amount.currency, locale);
   }
 
   /**
@@ -242,42 +1327,15 @@ export class SubscriptionCalculator {
   static getBillingCycleProgress(subscription: Subscription): number {
     const now = new Date();
     const nextBilling = this.getNextBillingDate(subscription);
-    
-    // Calculate previous billing date
-    let prevBilling = new Date(nextBilling);
-    prevBilling = this.subtractBillingCycle(prevBilling, subscription.frequency, subscription.customFrequencyDays);
+    // Before the first charge, measure from the start date
+    const prevBilling =
+      this.getPreviousBillingDate(subscription) ?? parseCalendarDate(subscription.startDate);
 
     const totalTime = nextBilling.getTime() - prevBilling.getTime();
+    if (totalTime <= 0) return 100;
     const elapsed = now.getTime() - prevBilling.getTime();
 
     const progress = (elapsed / totalTime) * 100;
     return Math.max(0, Math.min(100, progress));
   }
-
-  private static subtractBillingCycle(date: Date, frequency: BillingFrequency, customDays?: number): Date {
-    const newDate = new Date(date);
-
-    switch (frequency) {
-      case 'monthly':
-        newDate.setMonth(newDate.getMonth() - 1);
-        break;
-      case 'quarterly':
-        newDate.setMonth(newDate.getMonth() - 3);
-        break;
-      case 'half-yearly':
-        newDate.setMonth(newDate.getMonth() - 6);
-        break;
-      case 'yearly':
-        newDate.setFullYear(newDate.getFullYear() - 1);
-        break;
-      case 'custom':
-        if (customDays) {
-          newDate.setDate(newDate.getDate() - customDays);
-        }
-        break;
-    }
-
-    return newDate;
-  }
 }
-
@@ -0,0 +1,98 @@
+/**
+ * Usage Tracker
+ * 
+ * "I used this" check-ins per subscription: finds subscriptions that haven't
+ * been used in a while and what each use actually costs.
+ */
+
+import { Subscription, CalendarDate, Money } from '@/types/subscription.types';
+import { SubscriptionCalculator, DAYS_PER_MONTH } from './SubscriptionCalculator';
+import {
+  addDays,
+  differenceInDays,
+  parseCalendarDate,
+  toCalendarDate,
+} from '@/utils/calendarDate';
+import { multiply } from '@/utils/money';
+
+// Used when the user hasn't picked their own threshold
+export const DEFAULT_UNUSED_AFTER_DAYS = 30;
+
+export class UsageTracker {
+  /**
+   * Check-ins with one more for `date` (one per day, oldest first)
+   */
+  static addCheckIn(subscription: Subscription, date: Date = new Date()): CalendarDate[] {
+    const day = toCalendarDate(date);
+    const checkIns = subscription.usageCheckIns ?? [];
+    if (checkIns.includes(day)) return checkIns;
+    return [...checkIns, day].sort();
+  }
+
+  /**
+   * Day of the latest check-in, or null if never used
+   */
+  static getLastUsedDate(subscription: Subscription): Date | null {
+    const checkIns = subscription.usageCheckIns ?? [];
+    if (checkIns.length === 0) return null;
+    return parseCalendarDate(checkIns[checkIns.length - 1]);
+  }
+
+  /**
+   * Days since the last check-in (since the start date if never used)
+   */
+  static getDaysSinceLastUse(subscription: Subscription, date: Date = new Date()): number {
+    const lastUsed =
+      this.getLastUsedDate(subscription) ?? parseCalendarDate(subscription.startDate);
+    return Math.max(0, differenceInDays(lastUsed, date));
+  }
+
+  /**
+   * No check-in for at least `days` days
+   */
+  static isUnused(
+    subscription: Subscription,
+    days: number = DEFAULT_UNUSED_AFTER_DAYS,
+    date: Date = new Date()
+  ): boolean {
+    return this.getDaysSinceLastUse(subscription, date) >= days;
+  }
+
+  /**
+   * Number of check-ins in the last `days` days
+   */
+  static getUseCount(subscription: Subscription, days: number, date: Date = new Date()): number {
+    const from = toCalendarDate(addDays(date, -days));
+    const to = toCalendarDate(date);
+    return (subscription.usageCheckIns ?? []).filter(day => day > from && day <= to).length;
+  }
+
+  /**
+   * What each use cost over the last `days` days (spread evenly from the
+   * monthly equivalent), or null when it wasn't used at all
+   */
+  static getCostPerUse(
+    subscription: Subscription,
+    days: number = DEFAULT_UNUSED_AFTER_DAYS,
+    date: Date = new Date()
+  ): Money | null {
+    const uses = this.getUseCount(subscription, days, date);
+    if (uses === 0) return null;
+
+    return multiply(SubscriptionCalculator.getMonthlyEquivalent(subscription, date), days / DAYS_PER_MONTH / uses);
+  }
+
+  /**
+   * Renewing subscriptions with no check-in for at least `days` days, longest unused first
+   */
+  static getUnusedSubscriptions(
+    subscriptions: Subscription[],
+    days: number = DEFAULT_UNUSED_AFTER_DAYS,
+    date: Date = new Date()
+  ): Subscription[] {
+    return subscriptions
+      .filter(sub => SubscriptionCalculator.isRenewing(sub, date))
+      .filter(sub => this.isUnused(sub, days, date))
+      .sort((a, b) => this.getDaysSinceLastUse(b, date) - this.getDaysSinceLastUse(a, date));
+  }
+}
@@ -3,5 +3,10 @@
  */
 
 export { SubscriptionCalculator } from './SubscriptionCalculator';
-export { NotificationScheduler } from './NotificationScheduler';
+export { NotificationScheduler, USAGE_CHECK_IN_ACTION } from './NotificationScheduler';
 
+export { SavingsAdvisor } from './SavingsAdvisor';
+export { OverlapDetector } from './OverlapDetector';
+export { UsageTracker, DEFAULT_UNUSED_AFTER_DAYS } from './UsageTracker';
+export { ServiceDirectory } from './ServiceDirectory';
+export { SpendingInsights } from './SpendingInsights';
@@ -0,0 +1,233 @@
+/**
+ * Bundled Service Catalog
+ *
+ * Popular services with their plans, list prices and account links, shipped
+ * with the app so search and autofill work offline. Prices are list prices
+ * as of `updatedOn`; users can always edit what gets filled in.
+ */
+
+import { Recurrence } from '@/types/subscription.types';
+import { CatalogPrice, ServiceCatalog } from '@/types/serviceCatalog.types';
+import { fromMajor } from '@/utils/money';
+
+const MONTHLY: Recurrence = { interval: 1, unit: 'month' };
+const QUARTERLY: Recurrence = { interval: 3, unit: 'month' };
+const YEARLY: Recurrence = { interval: 1, unit: 'year' };
+
+const inr = (amount: number): CatalogPrice => ({ region: 'IN', price: fromMajor(amount, 'INR') });
+const usd = (amount: number): CatalogPrice => ({ region: 'US', price: fromMajor(amount, 'USD') });
+
+export const BUNDLED_SERVICE_CATALOG: ServiceCatalog = {
+  version: 1,
+  updatedOn: '2025-01-01',
+  services: [
+    {
+      id: 'netflix',
+      name: 'Netflix',
+      aliases: ['nflx'],
+      icon: '🎬',
+      category: 'streaming',
+      brandColor: '#E50914',
+      plans: [
+        { id: 'standard', label: 'Standard', tier: 'standard', recurrence: MONTHLY, prices: [inr(499), usd(17.99)] },
+        { id: 'premium', label: 'Premium', tier: 'premium', recurrence: MONTHLY, prices: [inr(649), usd(24.99)] },
+        { id: 'basic', label: 'Basic', tier: 'basic', recurrence: MONTHLY, prices: [inr(199)] },
+        { id: 'mobile', label: 'Mobile', tier: 'mobile', recurrence: MONTHLY, prices: [inr(149)] },
+        { id: 'standard-ads', label: 'Standard with ads', tier: 'standard-ads', recurrence: MONTHLY, prices: [usd(7.99)] },
+      ],
+      manageUrl: 'https://www.netflix.com/account',
+      cancelUrl: 'https://www.netflix.com/cancelplan',
+    },
+    {
+      id: 'spotify',
+      name: 'Spotify',
+      aliases: ['spotify premium'],
+      icon: '🎵',
+      category: 'music',
+      brandColor: '#1DB954',
+      plans: [
+        { id: 'individual', label: 'Individual', tier: 'individual', recurrence: MONTHLY, prices: [inr(119), usd(11.99)] },
+        { id: 'duo', label: 'Duo', tier: 'duo', recurrence: MONTHLY, prices: [inr(149), usd(16.99)] },
+        { id: 'family', label: 'Family', tier: 'family', recurrence: MONTHLY, prices: [inr(179), usd(19.99)] },
+        { id: 'student', label: 'Student', tier: 'student', recurrence: MONTHLY, prices: [inr(59), usd(5.99)] },
+      ],
+      manageUrl: 'https://www.spotify.com/account/overview/',
+      cancelUrl: 'https://support.spotify.com/article/cancel-premium/',
+    },
+    {
+      id: 'apple-music',
+      name: 'Apple Music',
+      aliases: ['itunes'],
+      icon: '🎧',
+      category: 'music',
+      brandColor: '#FA243C',
+      plans: [
+        { id: 'individual', label: 'Individual', tier: 'individual', recurrence: MONTHLY, prices: [inr(99), usd(10.99)] },
+        { id: 'family', label: 'Family', tier: 'family', recurrence: MONTHLY, prices: [inr(149), usd(16.99)] },
+        { id: 'student', label: 'Student', tier: 'student', recurrence: MONTHLY, prices: [inr(59), usd(5.99)] },
+      ],
+      manageUrl: 'https://apps.apple.com/account/subscriptions',
+      cancelUrl: 'https://support.apple.com/HT202039',
+    },
+    {
+      id: 'youtube-premium',
+      name: 'YouTube Premium',
+      aliases: ['youtube', 'yt premium', 'youtube music'],
+      icon: '📺',
+      category: 'streaming',
+      brandColor: '#FF0000',
+      plans: [
+        { id: 'individual-monthly', label: 'Individual', tier: 'individual', recurrence: MONTHLY, prices: [inr(149), usd(13.99)] },
+        { id: 'individual-annual', label: 'Individual (Annual)', tier: 'individual', recurrence: YEARLY, prices: [inr(1490), usd(139.99)] },
+        { id: 'family', label: 'Family', tier: 'family', recurrence: MONTHLY, prices: [inr(299), usd(22.99)] },
+      ],
+      manageUrl: 'https://www.youtube.com/paid_memberships',
+    },
+    {
+      id: 'amazon-prime',
+      name: 'Amazon Prime',
+      aliases: ['prime', 'prime video', 'amazon prime video'],
+      icon: '📦',
+      category: 'streaming',
+      brandColor: '#00A8E1',
+      plans: [
+        { id: 'monthly', label: 'Monthly', recurrence: MONTHLY, prices: [inr(299), usd(14.99)] },
+        { id: 'quarterly', label: 'Quarterly', recurrence: QUARTERLY, prices: [inr(599)] },
+        { id: 'annual', label: 'Annual', recurrence: YEARLY, prices: [inr(1499), usd(139)] },
+      ],
+      manageUrl: 'https://www.amazon.com/gp/primecentral',
+    },
+    {
+      id: 'disney-plus',
+      name: 'Disney+',
+      aliases: ['disney plus', 'disney'],
+      icon: '🏰',
+      category: 'streaming',
+      brandColor: '#113CCF',
+      plans: [
+        { id: 'premium-monthly', label: 'Premium', tier: 'premium', recurrence: MONTHLY, prices: [usd(15.99)] },
+        { id: 'premium-annual', label: 'Premium (Annual)', tier: 'premium', recurrence: YEARLY, prices: [usd(159.99)] },
+      ],
+      manageUrl: 'https://www.disneyplus.com/account',
+    },
+    {
+      id: 'icloud',
+      name: 'iCloud+',
+      aliases: ['icloud', 'icloud storage', 'apple icloud'],
+      icon: '☁️',
+      category: 'cloud',
+      brandColor: '#3693F3',
+      plans: [
+        { id: '50gb', label: '50 GB', tier: '50gb', recurrence: MONTHLY, prices: [inr(75), usd(0.99)] },
+        { id: '200gb', label: '200 GB', tier: '200gb', recurrence: MONTHLY, prices: [inr(219), usd(2.99)] },
+        { id: '2tb', label: '2 TB', tier: '2tb', recurrence: MONTHLY, prices: [inr(749), usd(9.99)] },
+      ],
+      manageUrl: 'https://apps.apple.com/account/subscriptions',
+      cancelUrl: 'https://support.apple.com/HT202039',
+    },
+    {
+      id: 'google-one',
+      name: 'Google One',
+      aliases: ['google storage', 'google drive storage'],
+      icon: '☁️',
+      category: 'cloud',
+      brandColor: '#4285F4',
+      plans: [
+        { id: '100gb-monthly', label: '100 GB', tier: '100gb', recurrence: MONTHLY, prices: [inr(130), usd(1.99)] },
+        { id: '100gb-annual', label: '100 GB (Annual)', tier: '100gb', recurrence: YEARLY, prices: [inr(1300), usd(19.99)] },
+      ],
+      manageUrl: 'https://one.google.com/settings',
+      cancelUrl: 'https://play.google.com/store/account/subscriptions',
+    },
+    {
+      id: 'adobe-creative-cloud',
+      name: 'Adobe Creative Cloud',
+      aliases: ['adobe', 'creative cloud', 'adobe cc'],
+      icon: '🎨',
+      category: 'software',
+      brandColor: '#FA0F00',
+      plans: [
+        { id: 'all-apps-monthly', label: 'All Apps', tier: 'all-apps', recurrence: MONTHLY, prices: [usd(59.99)] },
+        { id: 'all-apps-annual', label: 'All Apps (Annual, prepaid)', tier: 'all-apps', recurrence: YEARLY, prices: [usd(659.88)] },
+      ],
+      manageUrl: 'https://account.adobe.com/plans',
+    },
+    {
+      id: 'microsoft-365',
+      name: 'Microsoft 365',
+      aliases: ['office 365', 'office', 'ms 365'],
+      icon: '💼',
+      category: 'productivity',
+      brandColor: '#D83B01',
+      plans: [
+        { id: 'personal-monthly', label: 'Personal', tier: 'personal', recurrence: MONTHLY, prices: [inr(489), usd(9.99)] },
+        { id: 'personal-annual', label: 'Personal (Annual)', tier: 'personal', recurrence: YEARLY, prices: [inr(4899), usd(99.99)] },
+      ],
+      manageUrl: 'https://account.microsoft.com/services',
+    },
+    {
+      id: 'github',
+      name: 'GitHub',
+      aliases: ['github pro', 'github copilot'],
+      icon: '💻',
+      category: 'software',
+      brandColor: '#181717',
+      plans: [
+        { id: 'pro-monthly', label: 'Pro', tier: 'pro', recurrence: MONTHLY, prices: [usd(4)] },
+        { id: 'pro-annual', label: 'Pro (Annual)', tier: 'pro', recurrence: YEARLY, prices: [usd(48)] },
+      ],
+      manageUrl: 'https://github.com/settings/billing',
+    },
+    {
+      id: 'chatgpt',
+      name: 'ChatGPT Plus',
+      aliases: ['chatgpt', 'openai'],
+      icon: '🤖',
+      category: 'software',
+      brandColor: '#10A37F',
+      plans: [
+        { id: 'plus', label: 'Plus', recurrence: MONTHLY, prices: [inr(1999), usd(20)] },
+      ],
+      manageUrl: 'https://chatgpt.com/#settings/Subscription',
+    },
+    {
+      id: 'notion',
+      name: 'Notion',
+      aliases: ['notion plus'],
+      icon: '📝',
+      category: 'productivity',
+      brandColor: '#000000',
+      plans: [
+        { id: 'plus-monthly', label: 'Plus', tier: 'plus', recurrence: MONTHLY, prices: [usd(12)] },
+        { id: 'plus-annual', label: 'Plus (Annual)', tier: 'plus', recurrence: YEARLY, prices: [usd(120)] },
+      ],
+      manageUrl: 'https://www.notion.so/settings',
+    },
+    {
+      id: 'canva',
+      name: 'Canva Pro',
+      aliases: ['canva'],
+      icon: '🎨',
+      category: 'software',
+      brandColor: '#00C4CC',
+      plans: [
+        { id: 'pro-monthly', label: 'Pro', tier: 'pro', recurrence: MONTHLY, prices: [inr(499), usd(15)] },
+        { id: 'pro-annual', label: 'Pro (Annual)', tier: 'pro', recurrence: YEARLY, prices: [inr(3999), usd(120)] },
+      ],
+      manageUrl: 'https://www.canva.com/settings/billing-and-plans',
+    },
+    {
+      id: 'figma',
+      name: 'Figma',
+      aliases: ['figma professional'],
+      icon: '🎨',
+      category: 'software',
+      brandColor: '#F24E1E',
+      plans: [
+        { id: 'professional-monthly', label: 'Professional', tier: 'professional', recurrence: MONTHLY, prices: [usd(20)] },
+        { id: 'professional-annual', label: 'Professional (Annual)', tier: 'professional', recurrence: YEARLY, prices: [usd(192)] },
+      ],
+      manageUrl: 'https://www.figma.com/settings',
+    },
+  ],
+};
@@ -0,0 +1,5 @@
+/**
+ * Service Catalog - Central Export
+ */
+
+export { BUNDLED_SERVICE_CATALOG } from './BundledServiceCatalog';
@@ -0,0 +1,46 @@
+/**
+ * API Exchange Rate Provider
+ * 
+ * Live rates through ApiService (open.er-api.com, no API key needed)
+ */
+
+import { ApiService } from '@/service/api/ApiService';
+import { IExchangeRateProvider } from './IExchangeRateProvider';
+import { Currency } from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+
+const RATES_ENDPOINT = 'https://open.er-api.com/v6/latest/';
+
+interface LatestRatesResponse {
+  result: 'success' | 'error';
+  base_code: string;
+  time_last_update_unix: number;
+  rates: Record<string, number>;
+  'error-type'?: string;
+}
+
+export class ApiExchangeRateProvider implements IExchangeRateProvider {
+  readonly name = 'api';
+
+  async getRates(base: Currency): Promise<ExchangeRates> {
+    const response = await ApiService<undefined, LatestRatesResponse>(
+      undefined,
+      `${RATES_ENDPOINT}${base}`,
+      'get'
+    );
+
+    if (response.result !== 'success') {
+      throw new Error(response['error-type'] || 'Failed to fetch exchange rates');
+    }
+
+    return {
+      base,
+      rates: response.rates as ExchangeRates['rates'],
+      fetchedAt: new Date(),
+      updatedAt: new Date(response.time_last_update_unix * 1000),
+      source: this.name,
+    };
+  }
+}
+
+export const apiExchangeRateProvider = new ApiExchangeRateProvider();
@@ -0,0 +1,80 @@
+/**
+ * Bundled Exchange Rate Provider
+ * 
+ * Static rate table shipped with the app - always available offline,
+ * used until (or whenever) live rates can't be fetched
+ */
+
+import { IExchangeRateProvider } from './IExchangeRateProvider';
+import { Currency } from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+
+// Units per 1 USD (common currencies only - the API covers the rest)
+const BUNDLED_USD_RATES: Partial<Record<Currency, number>> = {
+  USD: 1,
+  INR: 83.0,
+  EUR: 0.92,
+  GBP: 0.79,
+  AUD: 1.52,
+  CAD: 1.36,
+  JPY: 150.0,
+  CNY: 7.2,
+  CHF: 0.88,
+  SGD: 1.34,
+  HKD: 7.82,
+  NZD: 1.64,
+  AED: 3.67,
+  SAR: 3.75,
+  KWD: 0.31,
+  BRL: 5.0,
+  MXN: 17.0,
+  ZAR: 18.5,
+  SEK: 10.5,
+  NOK: 10.6,
+  DKK: 6.9,
+  PLN: 4.0,
+  KRW: 1330.0,
+  IDR: 15600.0,
+  MYR: 4.7,
+  THB: 35.5,
+  PHP: 56.0,
+  VND: 24500.0,
+  PKR: 280.0,
+  BDT: 110.0,
+  LKR: 310.0,
+  NPR: 133.0,
+  NGN: 1500.0,
+  KES: 130.0,
+  EGP: 48.0,
+  TRY: 32.0,
+};
+
+// Date the bundled table was last refreshed
+const BUNDLED_RATES_DATE = new Date('2025-01-01T00:00:00Z');
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  base: 'USD',
+  rates: BUNDLED_USD_RATES,
+  fetchedAt: BUNDLED_RATES_DATE,
+  source: 'bundled',
+};
+
+export class BundledExchangeRateProvider implements IExchangeRateProvider {
+  readonly name = 'bundled';
+
+  async getRates(base: Currency): Promise<ExchangeRates> {
+    const baseRate = BUNDLED_USD_RATES[base];
+    // Conversions only need relative rates, so a USD-based table still works
+    if (!baseRate) return DEFAULT_EXCHANGE_RATES;
+
+    const rates: Partial<Record<Currency, number>> = {};
+
+    (Object.keys(BUNDLED_USD_RATES) as Currency[]).forEach(currency => {
+      rates[currency] = BUNDLED_USD_RATES[currency]! / baseRate;
+    });
+
+    return { base, rates, fetchedAt: BUNDLED_RATES_DATE, source: this.name };
+  }
+}
+
+export const bundledExchangeRateProvider = new BundledExchangeRateProvider();
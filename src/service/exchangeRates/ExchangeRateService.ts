@@ -0,0 +1,80 @@
+/**
+ * Exchange Rate Service
+ * 
+ * Fetches rates from the active provider and caches them in AsyncStorage
+ * so conversions keep working offline. Falls back to the cache, then to
+ * the bundled table, when the provider fails.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IExchangeRateProvider } from './IExchangeRateProvider';
+import { apiExchangeRateProvider } from './ApiExchangeRateProvider';
+import { bundledExchangeRateProvider } from './BundledExchangeRateProvider';
+import { Currency } from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { logger } from '@/utils/logger';
+
+const STORAGE_KEY = '@substrack:exchangeRates';
+
+// Rates older than this are flagged as stale in the UI
+export const RATES_STALE_AFTER_MS = 1000 * 60 * 60 * 24;
+
+export class ExchangeRateService {
+  private provider: IExchangeRateProvider = apiExchangeRateProvider;
+
+  /**
+   * Swap the live rate source (e.g. a different API, or bundled-only)
+   */
+  setProvider(provider: IExchangeRateProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Last rates saved to AsyncStorage, or null if nothing is cached
+   */
+  async getCachedRates(): Promise<ExchangeRates | null> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!data) return null;
+
+      const cached = JSON.parse(data);
+      return {
+        ...cached,
+        fetchedAt: new Date(cached.fetchedAt),
+        updatedAt: cached.updatedAt ? new Date(cached.updatedAt) : undefined,
+      };
+    } catch (error) {
+      logger.error('ExchangeRateService', 'getCachedRates error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch fresh rates and cache them
+   * Never throws - returns cached or bundled rates if the provider fails
+   */
+  async refreshRates(base: Currency = 'USD'): Promise<ExchangeRates> {
+    try {
+      const rates = await this.provider.getRates(base);
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(rates));
+
+      logger.info('ExchangeRateService', 'Refreshed rates from', rates.source);
+      return rates;
+    } catch (error) {
+      logger.warn('ExchangeRateService', 'refreshRates failed, using fallback:', error);
+
+      const cached = await this.getCachedRates();
+      return cached ?? bundledExchangeRateProvider.getRates(base);
+    }
+  }
+
+  /**
+   * Check if rates are too old to trust without a warning
+   */
+  isStale(rates: ExchangeRates, now: Date = new Date()): boolean {
+    return now.getTime() - new Date(rates.fetchedAt).getTime() > RATES_STALE_AFTER_MS;
+  }
+}
+
+// Export singleton instance
+export const exchangeRateService = new ExchangeRateService();
@@ -0,0 +1,21 @@
+/**
+ * Exchange Rate Provider Interface
+ * 
+ * Lets the rate source (bundled table, REST API, etc.) be swapped
+ * without touching the conversion logic.
+ */
+
+import { Currency } from '@/types/subscription.types';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+
+export interface IExchangeRateProvider {
+  /**
+   * Provider name, stored with the rates it produces
+   */
+  readonly name: string;
+
+  /**
+   * Fetch rates relative to a base currency
+   */
+  getRates(base: Currency): Promise<ExchangeRates>;
+}
@@ -0,0 +1,12 @@
+/**
+ * Exchange Rates - Central Export
+ */
+
+export type { IExchangeRateProvider } from './IExchangeRateProvider';
+export {
+  BundledExchangeRateProvider,
+  bundledExchangeRateProvider,
+  DEFAULT_EXCHANGE_RATES,
+} from './BundledExchangeRateProvider';
+export { ApiExchangeRateProvider, apiExchangeRateProvider } from './ApiExchangeRateProvider';
+export { ExchangeRateService, exchangeRateService, RATES_STALE_AFTER_MS } from './ExchangeRateService';
@@ -2,3 +2,6 @@
 export { useCounterStore } from './useCounterStore';
 export { useSubscriptionStore } from './useSubscriptionStore';
 export { useSettingsStore } from './useSettingsStore';
+export { useExchangeRateStore } from './useExchangeRateStore';
+export { useLedgerStore } from './useLedgerStore';
+export { useInsightStore } from './useInsightStore';
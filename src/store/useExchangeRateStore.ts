@@ -0,0 +1,51 @@
+/**
+ * Exchange Rate Store (Zustand)
+ * 
+ * Holds the rates used for currency conversion. Persistence lives in
+ * ExchangeRateService (AsyncStorage cache), so this store isn't persisted.
+ */
+
+import { create } from 'zustand';
+import { ExchangeRates } from '@/types/exchangeRate.types';
+import { DEFAULT_EXCHANGE_RATES, exchangeRateService } from '@/service/exchangeRates';
+
+interface ExchangeRateState {
+  rates: ExchangeRates;
+  isStale: boolean;
+  isLoading: boolean;
+
+  // Actions
+  loadRates: () => Promise<void>;
+}
+
+export const useExchangeRateStore = create<ExchangeRateState>()((set) => ({
+  // Initial State - bundled table until the cache/API answers
+  rates: DEFAULT_EXCHANGE_RATES,
+  isStale: exchangeRateService.isStale(DEFAULT_EXCHANGE_RATES),
+  isLoading: false,
+
+  // ===== Actions =====
+
+  /**
+   * Show cached rates right away, then refresh them if they're stale
+   */
+  loadRates: async () => {
+    set({ isLoading: true });
+
+    const cached = await exchangeRateService.getCachedRates();
+    if (cached) {
+      set({ rates: cached, isStale: exchangeRateService.isStale(cached) });
+      if (!exchangeRateService.isStale(cached)) {
+        set({ isLoading: false });
+        return;
+      }
+    }
+
+    const rates = await exchangeRateService.refreshRates();
+    set({
+      rates,
+      isStale: exchangeRateService.isStale(rates),
+      isLoading: false,
+    });
+  },
+}));
@@ -0,0 +1,45 @@
+/**
+ * Insight Store (Zustand)
+ * 
+ * Remembers which Dashboard insights the user dismissed
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+interface InsightState {
+  dismissedInsightIds: string[];
+
+  // Actions
+  dismissInsight: (id: string) => void;
+  isDismissed: (id: string) => boolean;
+  resetDismissed: () => void;
+}
+
+export const useInsightStore = create<InsightState>()(
+  persist(
+    (set, get) => ({
+      // Initial State
+      dismissedInsightIds: [],
+
+      // ===== Actions =====
+
+      dismissInsight: (id: string) => {
+        if (get().dismissedInsightIds.includes(id)) return;
+        set((state) => ({ dismissedInsightIds: [...state.dismissedInsightIds, id] }));
+      },
+
+      isDismissed: (id: string) => get().dismissedInsightIds.includes(id),
+
+      resetDismissed: () => set({ dismissedInsightIds: [] }),
+    }),
+    {
+      name: 'substrack-insights',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        dismissedInsightIds: state.dismissedInsightIds,
+      }),
+    }
+  )
+);
@@ -0,0 +1,162 @@
+/**
+ * Ledger Store (Zustand)
+ * 
+ * Recorded charges (paid, missed, refunded, disputed) per subscription
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Subscription } from '@/types/subscription.types';
+import { ChargeRecord } from '@/types/ledger.types';
+import { getBackendService } from '@/service/backend';
+import { migrateChargeRecord } from '@/service/backend/subscriptionMigrations';
+import { SubscriptionCalculator } from '@/service/business';
+import { logger } from '@/utils/logger';
+import { toCalendarDate } from '@/utils/calendarDate';
+
+interface LedgerState {
+  // Data
+  records: ChargeRecord[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchRecords: (userId: string) => Promise<void>;
+  addRecord: (record: Omit<ChargeRecord, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateRecord: (id: string, updates: Partial<ChargeRecord>) => Promise<void>;
+  deleteRecord: (id: string) => Promise<void>;
+  markPaid: (subscription: Subscription, scheduledDate: Date) => Promise<void>;
+}
+
+export const useLedgerStore = create<LedgerState>()(
+  persist(
+    (set, get) => ({
+      // Initial State
+      records: [],
+      isLoading: false,
+      error: null,
+
+      // ===== Actions =====
+
+      /**
+       * Fetch charge records from backend
+       */
+      fetchRecords: async (userId: string) => {
+        set({ isLoading: true, error: null });
+        try {
+          const backend = await getBackendService();
+          const records = await backend.getChargeRecords(userId);
+          set({ records, isLoading: false });
+        } catch (error: any) {
+          logger.error('useLedgerStore.fetchRecords', error);
+          set({ error: error.message, isLoading: false });
+        }
+      },
+
+      /**
+       * Record an actual charge
+       */
+      addRecord: async (record) => {
+        set({ isLoading: true, error: null });
+        try {
+          const backend = await getBackendService();
+          const newRecord = await backend.createChargeRecord(record);
+
+          set((state) => ({
+            records: [...state.records, newRecord],
+            isLoading: false,
+          }));
+
+          logger.info('Charge recorded', { id: newRecord.id, status: newRecord.status });
+        } catch (error: any) {
+          logger.error('useLedgerStore.addRecord', error);
+          set({ error: error.message, isLoading: false });
+          throw error;
+        }
+      },
+
+      /**
+       * Update a charge record
+       */
+      updateRecord: async (id, updates) => {
+        set({ isLoading: true, error: null });
+        try {
+          const backend = await getBackendService();
+          const updated = await backend.updateChargeRecord(id, updates);
+
+          set((state) => ({
+            records: state.records.map((record) => (record.id === id ? updated : record)),
+            isLoading: false,
+          }));
+
+          logger.info('Charge record updated', { id });
+        } catch (error: any) {
+          logger.error('useLedgerStore.updateRecord', error);
+          set({ error: error.message, isLoading: false });
+          throw error;
+        }
+      },
+
+      /**
+       * Delete a charge record
+       */
+      deleteRecord: async (id) => {
+        set({ isLoading: true, error: null });
+        try {
+          const backend = await getBackendService();
+          await backend.deleteChargeRecord(id);
+
+          set((state) => ({
+            records: state.records.filter((record) => record.id !== id),
+            isLoading: false,
+          }));
+
+          logger.info('Charge record deleted', { id });
+        } catch (error: any) {
+          logger.error('useLedgerStore.deleteRecord', error);
+          set({ error: error.message, isLoading: false });
+          throw error;
+        }
+      },
+
+      /**
+       * Record a scheduled charge as paid at its scheduled all-in amount
+       */
+      markPaid: async (subscription, scheduledDate) => {
+        const existing = SubscriptionCalculator.findChargeRecord(
+          subscription,
+          get().records,
+          scheduledDate
+        );
+        if (existing) {
+          await get().updateRecord(existing.id, { status: 'paid' });
+          return;
+        }
+
+        await get().addRecord({
+          userId: subscription.userId,
+          subscriptionId: subscription.id,
+          scheduledDate: toCalendarDate(scheduledDate),
+          date: toCalendarDate(scheduledDate),
+          amount: SubscriptionCalculator.getChargeTotal(subscription, scheduledDate),
+          status: 'paid',
+        });
+      },
+    }),
+    {
+      name: 'substrack-ledger',
+      storage: createJSONStorage(() => AsyncStorage),
+      // v1 stores amounts as Money
+      version: 1,
+      migrate: (persistedState: any) => ({
+        ...persistedState,
+        records: (persistedState?.records ?? []).map(migrateChargeRecord),
+      }),
+      // Only persist records, not loading states
+      partialize: (state) => ({
+        records: state.records,
+      }),
+    }
+  )
+);
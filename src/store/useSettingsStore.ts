@@ -5,8 +5,9 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { AppSettings, Currency } from '@/types/subscription.types';
+import { AppSettings, Currency, Money, SubscriptionCategory } from '@/types/subscription.types';
 import { getBackendService } from '@/service/backend';
+import { migrateSettings, SETTINGS_SCHEMA_VERSION } from '@/service/backend/subscriptionMigrations';
 import { logger } from '@/utils/logger';
 
 interface SettingsState extends Partial<AppSettings> {
@@ -20,6 +21,9 @@ interface SettingsState extends Partial<AppSettings> {
   setNotificationsEnabled: (enabled: boolean) => void;
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
   setDefaultReminderDays: (days: number) => void;
+  setUnusedAfterDays: (days: number) => void;
+  setMonthlyBudget: (budget?: Money) => void;
+  setCategoryBudget: (category: SubscriptionCategory, budget?: Money) => void;
 }
 
 const DEFAULT_SETTINGS: Omit<AppSettings, 'userId'> = {
@@ -127,10 +131,48 @@ export const useSettingsStore = create<SettingsState>()(
           get().updateSettings(userId, { defaultReminderDays: days });
         }
       },
+
+      setUnusedAfterDays: (days: number) => {
+        set({ unusedAfterDays: days });
+        const userId = get().userId;
+        if (userId) {
+          get().updateSettings(userId, { unusedAfterDays: days });
+        }
+      },
+
+      /**
+       * Budgets keep their own currency, so changing the settings currency
+       * doesn't change them. Cleared by passing undefined.
+       */
+      setMonthlyBudget: (budget?: Money) => {
+        set({ monthlyBudget: budget });
+        const userId = get().userId;
+        if (userId) {
+          get().updateSettings(userId, { monthlyBudget: budget });
+        }
+      },
+
+      setCategoryBudget: (category: SubscriptionCategory, budget?: Money) => {
+        const categoryBudgets = { ...get().categoryBudgets };
+        if (budget) {
+          categoryBudgets[category] = budget;
+        } else {
+          delete categoryBudgets[category];
+        }
+
+        set({ categoryBudgets });
+        const userId = get().userId;
+        if (userId) {
+          get().updateSettings(userId, { categoryBudgets });
+        }
+      },
     }),
     {
       name: 'substrack-settings',
       storage: createJSONStorage(() => AsyncStorage),
+      version: SETTINGS_SCHEMA_VERSION,
+      // Upgrade settings persisted by older app versions
+      migrate: (persistedState: any) => migrateSettings(persistedState ?? {}),
       // Persist all settings except loading states
       partialize: (state) => ({
         userId: state.userId,
@@ -138,6 +180,9 @@ export const useSettingsStore = create<SettingsState>()(
         notificationsEnabled: state.notificationsEnabled,
         theme: state.theme,
         defaultReminderDays: state.defaultReminderDays,
+        unusedAfterDays: state.unusedAfterDays,
+        monthlyBudget: state.monthlyBudget,
+        categoryBudgets: state.categoryBudgets,
         updatedAt: state.updatedAt,
       }),
     }
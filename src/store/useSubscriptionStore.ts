@@ -9,9 +9,44 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Subscription, SubscriptionSummary } from '@/types/subscription.types';
 import { getBackendService } from '@/service/backend';
+import {
+  migrateSubscription,
+  SUBSCRIPTION_SCHEMA_VERSION,
+} from '@/service/backend/subscriptionMigrations';
 import { SubscriptionCalculator } from '@/service/business';
 import { NotificationScheduler } from '@/service/business';
+import { UsageTracker, DEFAULT_UNUSED_AFTER_DAYS } from '@/service/business';
 import { logger } from '@/utils/logger';
+import { today } from '@/utils/calendarDate';
+import { useSettingsStore } from './useSettingsStore';
+import { useExchangeRateStore } from './useExchangeRateStore';
+
+const getUnusedAfterDays = (): number =>
+  useSettingsStore.getState().unusedAfterDays ?? DEFAULT_UNUSED_AFTER_DAYS;
+
+/**
+ * Alert when a change to the subscription list pushes spend over budget
+ */
+const alertIfOverBudget = async (
+  subscription: Subscription,
+  before: Subscription[],
+  after: Subscription[]
+): Promise<void> => {
+  const { currency = 'INR', monthlyBudget, categoryBudgets } = useSettingsStore.getState();
+  const { rates } = useExchangeRateStore.getState();
+  const active = (subs: Subscription[]) => subs.filter((sub) => SubscriptionCalculator.isActive(sub));
+
+  const exceeded = SubscriptionCalculator.getExceededBudgets(
+    active(before),
+    active(after),
+    { monthlyBudget, categoryBudgets },
+    currency,
+    rates
+  );
+  if (exceeded.length > 0) {
+    await NotificationScheduler.notifyBudgetExceeded(subscription, exceeded);
+  }
+};
 
 interface SubscriptionState {
   // Data
@@ -29,6 +64,8 @@ interface SubscriptionState {
   addSubscription: (subscription: Omit<Subscription, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateSubscription: (id: string, updates: Partial<Subscription>) => Promise<void>;
   deleteSubscription: (id: string) => Promise<void>;
+  checkIn: (id: string) => Promise<void>;
+  archiveSubscription: (id: string) => Promise<void>;
   syncWithBackend: (userId: string) => Promise<void>;
   calculateSummary: () => void;
   
@@ -66,7 +103,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
           get().calculateSummary();
 
           // Schedule notifications
-          await NotificationScheduler.rescheduleAll(subscriptions);
+          await NotificationScheduler.rescheduleAll(subscriptions, getUnusedAfterDays());
         } catch (error: any) {
           logger.error('useSubscriptionStore.fetchSubscriptions', error);
           set({ error: error.message, isLoading: false });
@@ -81,6 +118,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
         try {
           const backend = await getBackendService();
           const newSubscription = await backend.createSubscription(subscription);
+          const before = get().subscriptions;
           
           set((state) => ({
             subscriptions: [...state.subscriptions, newSubscription],
@@ -88,7 +126,8 @@ export const useSubscriptionStore = create<SubscriptionState>()(
           }));
           
           get().calculateSummary();
-          await NotificationScheduler.scheduleForSubscription(newSubscription);
+          await NotificationScheduler.scheduleForSubscription(newSubscription, getUnusedAfterDays());
+          await alertIfOverBudget(newSubscription, before, get().subscriptions);
 
           logger.info('Subscription added', { id: newSubscription.id });
         } catch (error: any) {
@@ -106,6 +145,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
         try {
           const backend = await getBackendService();
           const updated = await backend.updateSubscription(id, updates);
+          const before = get().subscriptions;
           
           set((state) => ({
             subscriptions: state.subscriptions.map((sub) =>
@@ -115,7 +155,8 @@ export const useSubscriptionStore = create<SubscriptionState>()(
           }));
 
           get().calculateSummary();
-          await NotificationScheduler.scheduleForSubscription(updated);
+          await NotificationScheduler.scheduleForSubscription(updated, getUnusedAfterDays());
+          await alertIfOverBudget(updated, before, get().subscriptions);
 
           logger.info('Subscription updated', { id });
         } catch (error: any) {
@@ -150,6 +191,25 @@ export const useSubscriptionStore = create<SubscriptionState>()(
         }
       },
 
+      /**
+       * Record that the subscription was used today
+       */
+      checkIn: async (id) => {
+        const subscription = get().subscriptions.find((sub) => sub.id === id);
+        if (!subscription) return;
+
+        await get().updateSubscription(id, {
+          usageCheckIns: UsageTracker.addCheckIn(subscription),
+        });
+      },
+
+      /**
+       * Hide an ended subscription from the Dashboard (it stays in the history)
+       */
+      archiveSubscription: async (id) => {
+        await get().updateSubscription(id, { archivedOn: today() });
+      },
+
       /**
        * Sync local data with backend (offline-first strategy)
        */
@@ -167,7 +227,7 @@ export const useSubscriptionStore = create<SubscriptionState>()(
           });
 
           get().calculateSummary();
-          await NotificationScheduler.rescheduleAll(synced);
+          await NotificationScheduler.rescheduleAll(synced, getUnusedAfterDays());
 
           logger.info('Sync completed', { count: synced.length });
         } catch (error: any) {
@@ -177,19 +237,50 @@ export const useSubscriptionStore = create<SubscriptionState>()(
       },
 
       /**
-       * Calculate summary metrics
+       * Calculate summary metrics (totals in the user's currency)
        */
       calculateSummary: () => {
         const { subscriptions } = get();
+        const { monthlyBudget, categoryBudgets } = useSettingsStore.getState();
+        const currency = useSettingsStore.getState().currency || 'INR';
+        const { rates } = useExchangeRateStore.getState();
         const activeSubscriptions = subscriptions.filter((sub) =>
           SubscriptionCalculator.isActive(sub)
         );
 
         const summary: SubscriptionSummary = {
-          totalMonthlySpend: SubscriptionCalculator.calculateTotalMonthlySpend(activeSubscriptions),
+          currency,
+          totalMonthlySpend: SubscriptionCalculator.calculateTotalMonthlySpend(
+            activeSubscriptions,
+            currency,
+            rates
+          ),
+          myMonthlySpend: SubscriptionCalculator.calculateTotalMonthlySpend(
+            activeSubscriptions,
+            currency,
+            rates,
+            new Date(),
+            'my-share'
+          ),
+          monthlyBreakdown: SubscriptionCalculator.calculateMonthlyBreakdown(
+            activeSubscriptions,
+            currency,
+            rates
+          ),
           totalActiveSubscriptions: activeSubscriptions.length,
           upcomingInNext7Days: SubscriptionCalculator.getUpcomingSubscriptions(activeSubscriptions, 7),
           upcomingThisMonth: SubscriptionCalculator.getUpcomingSubscriptions(activeSubscriptions, 30),
+          spendByCategory: SubscriptionCalculator.getSpendByCategory(
+            activeSubscriptions,
+            currency,
+            rates
+          ),
+          ...SubscriptionCalculator.getBudgets(
+            activeSubscriptions,
+            { monthlyBudget, categoryBudgets },
+            currency,
+            rates
+          ),
         };
 
         set({ summary });
@@ -222,6 +313,14 @@ export const useSubscriptionStore = create<SubscriptionState>()(
     {
       name: 'substrack-subscriptions',
       storage: createJSONStorage(() => AsyncStorage),
+      version: SUBSCRIPTION_SCHEMA_VERSION,
+      // Upgrade subscriptions persisted by older app versions
+      migrate: (persistedState: any) => ({
+        ...persistedState,
+        subscriptions: (persistedState?.subscriptions ?? []).map(migrateSubscription),
+        // Summaries are cheap to recompute; older ones may predate Money amounts
+        summary: null,
+      }),
       // Only persist subscriptions and summary, not loading states
       partialize: (state) => ({
         subscriptions: state.subscriptions,
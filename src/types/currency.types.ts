@@ -0,0 +1,168 @@
+/**
+ * Currency Types
+ * 
+ * ISO-4217 currencies with the number of minor units (decimal places)
+ * each one is counted in - 2 for most, 0 for JPY/KRW, 3 for the dinars
+ */
+
+export const CURRENCIES = [
+  { code: 'AED', name: 'UAE Dirham', minorUnits: 2 },
+  { code: 'AFN', name: 'Afghan Afghani', minorUnits: 2 },
+  { code: 'ALL', name: 'Albanian Lek', minorUnits: 2 },
+  { code: 'AMD', name: 'Armenian Dram', minorUnits: 2 },
+  { code: 'ANG', name: 'Netherlands Antillean Guilder', minorUnits: 2 },
+  { code: 'AOA', name: 'Angolan Kwanza', minorUnits: 2 },
+  { code: 'ARS', name: 'Argentine Peso', minorUnits: 2 },
+  { code: 'AUD', name: 'Australian Dollar', minorUnits: 2 },
+  { code: 'AWG', name: 'Aruban Florin', minorUnits: 2 },
+  { code: 'AZN', name: 'Azerbaijani Manat', minorUnits: 2 },
+  { code: 'BAM', name: 'Bosnia-Herzegovina Convertible Mark', minorUnits: 2 },
+  { code: 'BBD', name: 'Barbadian Dollar', minorUnits: 2 },
+  { code: 'BDT', name: 'Bangladeshi Taka', minorUnits: 2 },
+  { code: 'BGN', name: 'Bulgarian Lev', minorUnits: 2 },
+  { code: 'BHD', name: 'Bahraini Dinar', minorUnits: 3 },
+  { code: 'BIF', name: 'Burundian Franc', minorUnits: 0 },
+  { code: 'BMD', name: 'Bermudian Dollar', minorUnits: 2 },
+  { code: 'BND', name: 'Brunei Dollar', minorUnits: 2 },
+  { code: 'BOB', name: 'Bolivian Boliviano', minorUnits: 2 },
+  { code: 'BRL', name: 'Brazilian Real', minorUnits: 2 },
+  { code: 'BSD', name: 'Bahamian Dollar', minorUnits: 2 },
+  { code: 'BTN', name: 'Bhutanese Ngultrum', minorUnits: 2 },
+  { code: 'BWP', name: 'Botswana Pula', minorUnits: 2 },
+  { code: 'BYN', name: 'Belarusian Ruble', minorUnits: 2 },
+  { code: 'BZD', name: 'Belize Dollar', minorUnits: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', minorUnits: 2 },
+  { code: 'CDF', name: 'Congolese Franc', minorUnits: 2 },
+  { code: 'CHF', name: 'Swiss Franc', minorUnits: 2 },
+  { code: 'CLP', name: 'Chilean Peso', minorUnits: 0 },
+  { code: 'CNY', name: 'Chinese Yuan', minorUnits: 2 },
+  { code: 'COP', name: 'Colombian Peso', minorUnits: 2 },
+  { code: 'CRC', name: 'Costa Rican Colón', minorUnits: 2 },
+  { code: 'CUP', name: 'Cuban Peso', minorUnits: 2 },
+  { code: 'CVE', name: 'Cape Verdean Escudo', minorUnits: 2 },
+  { code: 'CZK', name: 'Czech Koruna', minorUnits: 2 },
+  { code: 'DJF', name: 'Djiboutian Franc', minorUnits: 0 },
+  { code: 'DKK', name: 'Danish Krone', minorUnits: 2 },
+  { code: 'DOP', name: 'Dominican Peso', minorUnits: 2 },
+  { code: 'DZD', name: 'Algerian Dinar', minorUnits: 2 },
+  { code: 'EGP', name: 'Egyptian Pound', minorUnits: 2 },
+  { code: 'ERN', name: 'Eritrean Nakfa', minorUnits: 2 },
+  { code: 'ETB', name: 'Ethiopian Birr', minorUnits: 2 },
+  { code: 'EUR', name: 'Euro', minorUnits: 2 },
+  { code: 'FJD', name: 'Fijian Dollar', minorUnits: 2 },
+  { code: 'FKP', name: 'Falkland Islands Pound', minorUnits: 2 },
+  { code: 'GBP', name: 'British Pound', minorUnits: 2 },
+  { code: 'GEL', name: 'Georgian Lari', minorUnits: 2 },
+  { code: 'GHS', name: 'Ghanaian Cedi', minorUnits: 2 },
+  { code: 'GIP', name: 'Gibraltar Pound', minorUnits: 2 },
+  { code: 'GMD', name: 'Gambian Dalasi', minorUnits: 2 },
+  { code: 'GNF', name: 'Guinean Franc', minorUnits: 0 },
+  { code: 'GTQ', name: 'Guatemalan Quetzal', minorUnits: 2 },
+  { code: 'GYD', name: 'Guyanese Dollar', minorUnits: 2 },
+  { code: 'HKD', name: 'Hong Kong Dollar', minorUnits: 2 },
+  { code: 'HNL', name: 'Honduran Lempira', minorUnits: 2 },
+  { code: 'HTG', name: 'Haitian Gourde', minorUnits: 2 },
+  { code: 'HUF', name: 'Hungarian Forint', minorUnits: 2 },
+  { code: 'IDR', name: 'Indonesian Rupiah', minorUnits: 2 },
+  { code: 'ILS', name: 'Israeli New Shekel', minorUnits: 2 },
+  { code: 'INR', name: 'Indian Rupee', minorUnits: 2 },
+  { code: 'IQD', name: 'Iraqi Dinar', minorUnits: 3 },
+  { code: 'IRR', name: 'Iranian Rial', minorUnits: 2 },
+  { code: 'ISK', name: 'Icelandic Króna', minorUnits: 0 },
+  { code: 'JMD', name: 'Jamaican Dollar', minorUnits: 2 },
+  { code: 'JOD', name: 'Jordanian Dinar', minorUnits: 3 },
+  { code: 'JPY', name: 'Japanese Yen', minorUnits: 0 },
+  { code: 'KES', name: 'Kenyan Shilling', minorUnits: 2 },
+  { code: 'KGS', name: 'Kyrgyzstani Som', minorUnits: 2 },
+  { code: 'KHR', name: 'Cambodian Riel', minorUnits: 2 },
+  { code: 'KMF', name: 'Comorian Franc', minorUnits: 0 },
+  { code: 'KPW', name: 'North Korean Won', minorUnits: 2 },
+  { code: 'KRW', name: 'South Korean Won', minorUnits: 0 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', minorUnits: 3 },
+  { code: 'KYD', name: 'Cayman Islands Dollar', minorUnits: 2 },
+  { code: 'KZT', name: 'Kazakhstani Tenge', minorUnits: 2 },
+  { code: 'LAK', name: 'Lao Kip', minorUnits: 2 },
+  { code: 'LBP', name: 'Lebanese Pound', minorUnits: 2 },
+  { code: 'LKR', name: 'Sri Lankan Rupee', minorUnits: 2 },
+  { code: 'LRD', name: 'Liberian Dollar', minorUnits: 2 },
+  { code: 'LSL', name: 'Lesotho Loti', minorUnits: 2 },
+  { code: 'LYD', name: 'Libyan Dinar', minorUnits: 3 },
+  { code: 'MAD', name: 'Moroccan Dirham', minorUnits: 2 },
+  { code: 'MDL', name: 'Moldovan Leu', minorUnits: 2 },
+  { code: 'MGA', name: 'Malagasy Ariary', minorUnits: 2 },
+  { code: 'MKD', name: 'Macedonian Denar', minorUnits: 2 },
+  { code: 'MMK', name: 'Myanmar Kyat', minorUnits: 2 },
+  { code: 'MNT', name: 'Mongolian Tögrög', minorUnits: 2 },
+  { code: 'MOP', name: 'Macanese Pataca', minorUnits: 2 },
+  { code: 'MRU', name: 'Mauritanian Ouguiya', minorUnits: 2 },
+  { code: 'MUR', name: 'Mauritian Rupee', minorUnits: 2 },
+  { code: 'MVR', name: 'Maldivian Rufiyaa', minorUnits: 2 },
+  { code: 'MWK', name: 'Malawian Kwacha', minorUnits: 2 },
+  { code: 'MXN', name: 'Mexican Peso', minorUnits: 2 },
+  { code: 'MYR', name: 'Malaysian Ringgit', minorUnits: 2 },
+  { code: 'MZN', name: 'Mozambican Metical', minorUnits: 2 },
+  { code: 'NAD', name: 'Namibian Dollar', minorUnits: 2 },
+  { code: 'NGN', name: 'Nigerian Naira', minorUnits: 2 },
+  { code: 'NIO', name: 'Nicaraguan Córdoba', minorUnits: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', minorUnits: 2 },
+  { code: 'NPR', name: 'Nepalese Rupee', minorUnits: 2 },
+  { code: 'NZD', name: 'New Zealand Dollar', minorUnits: 2 },
+  { code: 'OMR', name: 'Omani Rial', minorUnits: 3 },
+  { code: 'PAB', name: 'Panamanian Balboa', minorUnits: 2 },
+  { code: 'PEN', name: 'Peruvian Sol', minorUnits: 2 },
+  { code: 'PGK', name: 'Papua New Guinean Kina', minorUnits: 2 },
+  { code: 'PHP', name: 'Philippine Peso', minorUnits: 2 },
+  { code: 'PKR', name: 'Pakistani Rupee', minorUnits: 2 },
+  { code: 'PLN', name: 'Polish Złoty', minorUnits: 2 },
+  { code: 'PYG', name: 'Paraguayan Guaraní', minorUnits: 0 },
+  { code: 'QAR', name: 'Qatari Riyal', minorUnits: 2 },
+  { code: 'RON', name: 'Romanian Leu', minorUnits: 2 },
+  { code: 'RSD', name: 'Serbian Dinar', minorUnits: 2 },
+  { code: 'RUB', name: 'Russian Ruble', minorUnits: 2 },
+  { code: 'RWF', name: 'Rwandan Franc', minorUnits: 0 },
+  { code: 'SAR', name: 'Saudi Riyal', minorUnits: 2 },
+  { code: 'SBD', name: 'Solomon Islands Dollar', minorUnits: 2 },
+  { code: 'SCR', name: 'Seychellois Rupee', minorUnits: 2 },
+  { code: 'SDG', name: 'Sudanese Pound', minorUnits: 2 },
+  { code: 'SEK', name: 'Swedish Krona', minorUnits: 2 },
+  { code: 'SGD', name: 'Singapore Dollar', minorUnits: 2 },
+  { code: 'SHP', name: 'Saint Helena Pound', minorUnits: 2 },
+  { code: 'SLE', name: 'Sierra Leonean Leone', minorUnits: 2 },
+  { code: 'SOS', name: 'Somali Shilling', minorUnits: 2 },
+  { code: 'SRD', name: 'Surinamese Dollar', minorUnits: 2 },
+  { code: 'SSP', name: 'South Sudanese Pound', minorUnits: 2 },
+  { code: 'STN', name: 'São Tomé and Príncipe Dobra', minorUnits: 2 },
+  { code: 'SVC', name: 'Salvadoran Colón', minorUnits: 2 },
+  { code: 'SYP', name: 'Syrian Pound', minorUnits: 2 },
+  { code: 'SZL', name: 'Swazi Lilangeni', minorUnits: 2 },
+  { code: 'THB', name: 'Thai Baht', minorUnits: 2 },
+  { code: 'TJS', name: 'Tajikistani Somoni', minorUnits: 2 },
+  { code: 'TMT', name: 'Turkmenistani Manat', minorUnits: 2 },
+  { code: 'TND', name: 'Tunisian Dinar', minorUnits: 3 },
+  { code: 'TOP', name: 'Tongan Paʻanga', minorUnits: 2 },
+  { code: 'TRY', name: 'Turkish Lira', minorUnits: 2 },
+  { code: 'TTD', name: 'Trinidad and Tobago Dollar', minorUnits: 2 },
+  { code: 'TWD', name: 'New Taiwan Dollar', minorUnits: 2 },
+  { code: 'TZS', name: 'Tanzanian Shilling', minorUnits: 2 },
+  { code: 'UAH', name: 'Ukrainian Hryvnia', minorUnits: 2 },
+  { code: 'UGX', name: 'Ugandan Shilling', minorUnits: 0 },
+  { code: 'USD', name: 'US Dollar', minorUnits: 2 },
+  { code: 'UYU', name: 'Uruguayan Peso', minorUnits: 2 },
+  { code: 'UZS', name: 'Uzbekistani Som', minorUnits: 2 },
+  { code: 'VES', name: 'Venezuelan Bolívar', minorUnits: 2 },
+  { code: 'VND', name: 'Vietnamese Đồng', minorUnits: 0 },
+  { code: 'VUV', name: 'Vanuatu Vatu', minorUnits: 0 },
+  { code: 'WST', name: 'Samoan Tala', minorUnits: 2 },
+  { code: 'XAF', name: 'Central African CFA Franc', minorUnits: 0 },
+  { code: 'XCD', name: 'East Caribbean Dollar', minorUnits: 2 },
+  { code: 'XOF', name: 'West African CFA Franc', minorUnits: 0 },
+  { code: 'XPF', name: 'CFP Franc', minorUnits: 0 },
+  { code: 'YER', name: 'Yemeni Rial', minorUnits: 2 },
+  { code: 'ZAR', name: 'South African Rand', minorUnits: 2 },
+  { code: 'ZMW', name: 'Zambian Kwacha', minorUnits: 2 },
+  { code: 'ZWL', name: 'Zimbabwean Dollar', minorUnits: 2 },
+] as const;
+
+export type Currency = (typeof CURRENCIES)[number]['code'];
+
+export type CurrencyInfo = (typeof CURRENCIES)[number];
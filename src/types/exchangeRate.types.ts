@@ -0,0 +1,13 @@
+/**
+ * SubsTrack - Exchange Rate Types
+ */
+
+import { Currency } from './subscription.types';
+
+export interface ExchangeRates {
+  base: Currency;
+  rates: Partial<Record<Currency, number>>; // Units of each currency per 1 base unit
+  fetchedAt: Date; // When these rates were fetched (drives the cache's staleness)
+  updatedAt?: Date; // When the upstream source last updated them, if it says
+  source: string; // Provider name, e.g. "bundled" or "api"
+}
@@ -3,4 +3,8 @@
  */
 
 export * from './subscription.types';
-
+export * from './exchangeRate.types';
+export * from './currency.types';
+export * from './ledger.types';
+export * from './money.types';
+export * from './serviceCatalog.types';
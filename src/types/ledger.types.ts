@@ -0,0 +1,28 @@
+/**
+ * Payment Ledger Types
+ *
+ * What actually happened to a charge, as opposed to the schedule
+ * SubscriptionCalculator predicts
+ */
+
+import { CalendarDate, Money } from './subscription.types';
+
+export type ChargeStatus = 'paid' | 'missed' | 'refunded' | 'disputed';
+
+export interface ChargeRecord {
+  id: string;
+  userId: string;
+  subscriptionId: string;
+
+  // The scheduled occurrence this record settles (a charge date from
+  // SubscriptionCalculator); missing for charges outside the schedule
+  scheduledDate?: CalendarDate;
+
+  date: CalendarDate; // When the charge actually happened
+  amount: Money;
+  status: ChargeStatus;
+  note?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,16 @@
+/**
+ * SubsTrack - Money Types
+ */
+
+import { Currency } from './currency.types';
+
+// An exact amount: whole minor units (paise for INR, cents for USD, yen for JPY)
+// in a currency. Never a fraction - see utils/money for arithmetic.
+export type Money = {
+  minor: number;
+  currency: Currency;
+};
+
+// How a fraction of a minor unit is resolved: 'half-up' rounds .5 away from
+// zero, 'half-even' to the nearest even unit (banker's rounding)
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil';
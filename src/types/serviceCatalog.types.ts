@@ -0,0 +1,40 @@
+/**
+ * SubsTrack - Service Catalog Types
+ */
+
+import { Money } from './money.types';
+import { CalendarDate, Recurrence, SubscriptionCategory } from './subscription.types';
+
+// A plan's list price in one region (ISO 3166 country code, e.g. "IN")
+export type CatalogPrice = {
+  region: string;
+  price: Money;
+};
+
+export type CatalogPlan = {
+  id: string; // Unique within the service
+  label: string; // e.g. "Premium (Annual)"
+  // Plans with the same tier are the same product billed differently
+  // (monthly vs annual); missing when the service has a single product
+  tier?: string;
+  recurrence: Recurrence;
+  prices: CatalogPrice[];
+};
+
+export interface CatalogService {
+  id: string;
+  name: string; // Canonical name
+  aliases: string[]; // Other names people type, matched case-insensitively
+  icon: string;
+  category: SubscriptionCategory;
+  brandColor: string; // Hex, e.g. "#E50914"
+  plans: CatalogPlan[]; // Most common plan first
+  manageUrl?: string; // Account / subscription settings
+  cancelUrl?: string; // Cancellation page or help article
+}
+
+export interface ServiceCatalog {
+  version: number; // Bumped whenever services, plans or prices change
+  updatedOn: CalendarDate; // When prices were last checked
+  services: CatalogService[];
+}
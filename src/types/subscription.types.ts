@@ -2,7 +2,39 @@
  * SubsTrack - Type Definitions
  */
 
-export type BillingFrequency = 'monthly' | 'quarterly' | 'half-yearly' | 'yearly' | 'custom';
+import { Currency } from './currency.types';
+import { Money } from './money.types';
+
+export type { Currency, Money };
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+// Billing repeats every `interval` units, e.g. { interval: 2, unit: 'week' } for bi-weekly.
+// Month and year cycles land on billingDate; day and week cycles count from the first charge.
+export type Recurrence = {
+  interval: number;
+  unit: RecurrenceUnit;
+};
+
+// A day on the calendar, 'YYYY-MM-DD' - no time of day and no timezone,
+// so billing days don't shift when the device timezone changes
+export type CalendarDate = string;
+
+// What to do when the billing day doesn't exist in a month (e.g. the 31st in April):
+// 'clamp' bills on the month's last day, 'roll-forward' on the 1st of the next month,
+// 'last-day' always bills on the last day of the month regardless of billingDate
+export type MonthEndPolicy = 'clamp' | 'roll-forward' | 'last-day';
+
+// Where a subscription is in its life. Derived from the dates below (see
+// SubscriptionCalculator.getStatus): 'cancellation-pending' is cancelled but
+// paid up until paidThroughDate; 'archived' is hidden from the Dashboard.
+export type SubscriptionStatus =
+  | 'active'
+  | 'trial'
+  | 'paused'
+  | 'cancellation-pending'
+  | 'ended'
+  | 'archived';
 
 export type PaymentMethod = {
   id: string;
@@ -10,7 +42,72 @@ export type PaymentMethod = {
   type?: 'card' | 'upi' | 'netbanking' | 'other';
 };
 
-export type Currency = 'USD' | 'INR' | 'EUR' | 'GBP' | 'AUD';
+export type PriceChange = {
+  amount: Money;
+  effectiveFrom: CalendarDate; // First charge date this price applies to
+};
+
+export type PauseInterval = {
+  startDate: CalendarDate; // First paused day
+  resumeDate: CalendarDate; // Billing resumes on this day
+};
+
+// Someone sharing the cost of a subscription. Fixed amounts come off each
+// charge first; whatever is left is split by share (defaults to 1 each).
+export type SplitMember = {
+  id: string;
+  name: string;
+  isMe?: boolean; // The member whose cost counts as "my share"
+  share?: number;
+  fixedAmount?: Money; // Per charge, in the subscription's currency
+};
+
+export type MemberShare = {
+  member: SplitMember;
+  amount: Money;
+};
+
+// Extra cost added on top of the listed price, e.g. a card's foreign-transaction fee.
+// Percentages apply to price + tax.
+export type ChargeFee =
+  | { label: string; type: 'fixed'; amount: Money } // In the subscription's currency
+  | { label: string; type: 'percent'; value: number };
+
+// What one charge is made of; total is what actually leaves the account
+export type ChargeBreakdown = {
+  base: Money;
+  tax: Money;
+  fees: Money;
+  total: Money;
+};
+
+// Fixed-term contract, e.g. a phone plan, insurance or an annual SaaS agreement
+export type ContractTerm = {
+  termEndDate: CalendarDate; // Last day of the initial term
+  autoRenew: boolean; // Otherwise the subscription ends with the term
+  renewalTerm: Recurrence; // Length of each renewal
+  noticeDays: number; // Cancellation must be given this many days before a term ends
+};
+
+// A way of paying for a service (e.g. its yearly plan)
+export type BillingPlan = {
+  label?: string; // e.g. "Annual"
+  recurrence: Recurrence;
+  amount: Money;
+};
+
+// 'gross' is the full price; 'my-share' only what the user pays themselves
+export type SpendView = 'gross' | 'my-share';
+
+export type SubscriptionCategory =
+  | 'streaming'
+  | 'music'
+  | 'software'
+  | 'cloud'
+  | 'productivity'
+  | 'utilities'
+  | 'learning'
+  | 'other';
 
 export interface Subscription {
   id: string;
@@ -19,27 +116,55 @@ export interface Subscription {
   // Basic Info
   serviceName: string;
   serviceIcon?: string; // URL or asset reference
+  category?: SubscriptionCategory; // Defaults to 'other'
+  tags?: string[]; // Free-form, lowercase, no duplicates
+  catalogId?: string; // Service catalog entry this was picked from
+  catalogPlanId?: string; // Catalog plan it was filled in from
   
   // Billing Details
-  amount: number;
-  currency: Currency;
+  amount: Money; // Latest listed price before tax/fees (see priceHistory for when it applies)
+  currency: Currency; // Billing currency; every amount on the subscription is in it
   billingDate: number; // Day of month (1-31)
-  frequency: BillingFrequency;
-  customFrequencyDays?: number; // For custom frequency
+  monthEndPolicy?: MonthEndPolicy; // Defaults to 'clamp'
+  recurrence: Recurrence;
+  priceHistory?: PriceChange[]; // Oldest first; empty/missing means amount always applied
+  taxRate?: number; // Percentage added on top of the price, e.g. 18 for GST
+  fees?: ChargeFee[];
   
   // Payment
   paymentMethod?: PaymentMethod;
+  members?: SplitMember[]; // Shared plans; empty/missing means the user pays it all
+  alternativePlans?: BillingPlan[]; // Other plans the user was offered (for savings advice)
   
   // Subscription Duration
-  startDate: Date; // When subscription started
+  startDate: CalendarDate; // When subscription started
+  timeZone?: string; // IANA zone the dates were entered in, e.g. "Asia/Kolkata" (informational)
   isOneTime: boolean; // Is this a limited-time subscription?
   cycleLimit?: number; // End after X cycles (e.g., 6 months)
+  contract?: ContractTerm;
+  
+  // Free Trial
+  trialDays?: number; // Trial length in days from startDate
+  trialEndDate?: CalendarDate; // Explicit trial end (takes precedence over trialDays)
+  postTrialAmount?: Money; // Price once the trial converts (defaults to amount)
+  
+  // Pauses
+  pauses?: PauseInterval[]; // Oldest first; charges after each pause shift by its length
+  
+  // Lifecycle
+  cancelledOn?: CalendarDate; // Day the user cancelled
+  paidThroughDate?: CalendarDate; // Last day already paid for after cancelling; no charges after it
+  endDate?: CalendarDate; // First day without access when ended early (one-time plans end on their own)
+  archivedOn?: CalendarDate;
+  
+  // Usage
+  usageCheckIns?: CalendarDate[]; // Days the user said "I used this", oldest first
   
   // Reminders
   reminderEnabled: boolean;
   reminderDaysBefore: number; // Days before billing date
   
-  // Metadata
+  // Metadata (timestamps - real instants, unlike the calendar dates above)
   notes?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -50,10 +175,106 @@ export interface Subscription {
 }
 
 export interface SubscriptionSummary {
-  totalMonthlySpend: number;
+  currency: Currency; // Currency all totals are converted into
+  totalMonthlySpend: Money; // Gross
+  myMonthlySpend: Money; // Only the user's share of split subscriptions
+  monthlyBreakdown: ChargeBreakdown; // totalMonthlySpend split into price, tax and fees
   totalActiveSubscriptions: number;
   upcomingInNext7Days: Subscription[];
   upcomingThisMonth: Subscription[];
+  spendByCategory: Partial<Record<SubscriptionCategory, Money>>; // Monthly equivalent per category
+  budget?: BudgetStatus; // Only when an overall budget is set
+  categoryBudgets: BudgetStatus[]; // One per category with a budget
+}
+
+export interface BudgetStatus {
+  category?: SubscriptionCategory; // Missing for the overall budget
+  limit: Money;
+  used: Money; // Monthly equivalent spend
+  remaining: Money; // Negative when over budget
+  isOverBudget: boolean;
+}
+
+export interface SavingsOpportunity {
+  subscription: Subscription;
+  plan: BillingPlan; // The cheaper plan to switch to
+  source: 'catalog' | 'user';
+  currentYearlyCost: Money; // In the subscription's currency
+  planYearlyCost: Money;
+  yearlySavings: Money;
+  convertedSavings: Money; // yearlySavings in the display currency
+}
+
+export interface OverlapInsight {
+  id: string; // Stable for the same set of subscriptions (used to remember dismissals)
+  kind: 'duplicate' | 'overlap';
+  subscriptionIds: string[];
+  category?: SubscriptionCategory; // For overlaps
+  title: string;
+  message: string;
+}
+
+// Switching price part-way through a cycle; amounts are all-in, in the
+// subscription's currency
+export interface ProrationResult {
+  changeDate: Date;
+  cycleStart: Date | null; // Charge that opened the current cycle (null before the first charge)
+  nextChargeDate: Date | null; // Null when nothing more will be charged
+  remainingFraction: number; // Share of the current cycle left from the change date
+  credit: Money; // Unused part of the old price
+  extraCharge: Money; // New price for the rest of the cycle
+  amountDue: Money; // Charged now: extraCharge - credit, never below 0
+  nextCharge: Money; // Next regular charge at the new price, less any credit left over
+}
+
+export interface ForecastCharge {
+  subscriptionId: string;
+  serviceName: string;
+  serviceIcon?: string;
+  date: Date;
+  amount: Money; // All-in, in the subscription's currency
+  convertedAmount: Money; // In the forecast currency
+}
+
+export interface MonthForecast {
+  month: Date; // First day of the month
+  currency: Currency;
+  total: Money; // Sum of convertedAmount
+  charges: ForecastCharge[]; // Sorted by date
+}
+
+// Charges falling on one calendar day
+export interface DayCharges {
+  date: Date; // Local midnight
+  total: Money; // Sum of convertedAmount
+  charges: ForecastCharge[];
+}
+
+// A price rise that took effect during the review period
+export interface PriceIncrease {
+  subscription: Subscription;
+  effectiveFrom: Date;
+  previous: Money; // Listed price before, in the subscription's currency
+  current: Money;
+  percent: number; // e.g. 20 for +20%
+  yearlyImpact: Money; // Extra cost per year, in the review currency
+}
+
+// What a calendar year of subscriptions added up to. Amounts are all-in
+// scheduled charges, converted into the review currency.
+export interface YearInReview {
+  year: number;
+  currency: Currency;
+  from: Date; // January 1st
+  to: Date; // December 31st, or today for the current year
+  totalSpent: Money;
+  averagePerDay: Money; // totalSpent over the days from `from` to `to`
+  chargeCount: number;
+  priceIncreases: PriceIncrease[]; // Biggest yearly impact first
+  newSubscriptions: Subscription[]; // Started during the year
+  cancellations: Subscription[]; // Cancelled during the year
+  spendByCategory: { category: SubscriptionCategory; amount: Money }[]; // Highest first
+  spendByPaymentMethod: { paymentMethod: string; amount: Money }[]; // Highest first
 }
 
 export interface AppSettings {
@@ -62,25 +283,32 @@ export interface AppSettings {
   notificationsEnabled: boolean;
   theme: 'light' | 'dark' | 'system';
   defaultReminderDays: number;
+  unusedAfterDays?: number; // No check-in for this long counts as unused (defaults to 30)
+  monthlyBudget?: Money; // Kept in the currency it was set in
+  categoryBudgets?: Partial<Record<SubscriptionCategory, Money>>;
   updatedAt: Date;
 }
 
-// Pre-defined popular services
-export const POPULAR_SERVICES = [
-  { name: 'Netflix', icon: '🎬' },
-  { name: 'Spotify', icon: '🎵' },
-  { name: 'Apple Music', icon: '🎧' },
-  { name: 'YouTube Premium', icon: '📺' },
-  { name: 'Amazon Prime', icon: '📦' },
-  { name: 'Disney+', icon: '🏰' },
-  { name: 'iCloud', icon: '☁️' },
-  { name: 'Google One', icon: '☁️' },
-  { name: 'Adobe Creative Cloud', icon: '🎨' },
-  { name: 'Microsoft 365', icon: '💼' },
-  { name: 'GitHub', icon: '💻' },
-  { name: 'ChatGPT Plus', icon: '🤖' },
-  { name: 'Notion', icon: '📝' },
-  { name: 'Canva Pro', icon: '🎨' },
-  { name: 'Figma', icon: '🎨' },
-] as const;
+// Categories in display order
+export const SUBSCRIPTION_CATEGORIES: { value: SubscriptionCategory; label: string; icon: string }[] = [
+  { value: 'streaming', label: 'Streaming', icon: '🎬' },
+  { value: 'music', label: 'Music', icon: '🎵' },
+  { value: 'software', label: 'Software', icon: '💻' },
+  { value: 'cloud', label: 'Cloud', icon: '☁️' },
+  { value: 'productivity', label: 'Productivity', icon: '💼' },
+  { value: 'utilities', label: 'Utilities', icon: '💡' },
+  { value: 'learning', label: 'Learning', icon: '📚' },
+  { value: 'other', label: 'Other', icon: '📁' },
+];
+
+// Common billing cycles offered as shortcuts in the form
+export const RECURRENCE_PRESETS: { label: string; recurrence: Recurrence }[] = [
+  { label: 'Weekly', recurrence: { interval: 1, unit: 'week' } },
+  { label: 'Bi-weekly', recurrence: { interval: 2, unit: 'week' } },
+  { label: 'Every 4 weeks', recurrence: { interval: 4, unit: 'week' } },
+  { label: 'Monthly', recurrence: { interval: 1, unit: 'month' } },
+  { label: 'Quarterly', recurrence: { interval: 3, unit: 'month' } },
+  { label: 'Half-yearly', recurrence: { interval: 6, unit: 'month' } },
+  { label: 'Yearly', recurrence: { interval: 1, unit: 'year' } },
+];
 
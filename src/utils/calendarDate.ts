@@ -0,0 +1,74 @@
+/**
+ * Calendar Date Helpers
+ *
+ * Billing dates are stored as plain calendar days ('YYYY-MM-DD') so they
+ * don't move when the device timezone changes. Arithmetic happens on
+ * local-midnight Date objects built from the year/month/day parts, never
+ * on UTC instants.
+ */
+
+import { CalendarDate } from '@/types/subscription.types';
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Local calendar day of a Date, as 'YYYY-MM-DD'
+ */
+export const toCalendarDate = (date: Date): CalendarDate => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Check for a well-formed, real calendar day (rejects e.g. '2025-02-30')
+ */
+export const isCalendarDate = (value: unknown): value is CalendarDate => {
+  if (typeof value !== 'string') return false;
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+/**
+ * Local midnight of a calendar day.
+ * Also accepts Dates and legacy ISO timestamps, taking their local calendar day.
+ */
+export const parseCalendarDate = (value: CalendarDate | Date): Date => {
+  if (value instanceof Date) return startOfDay(value);
+
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (match) {
+    const [, year, month, day] = match.map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  return startOfDay(new Date(value));
+};
+
+/**
+ * Today's local calendar day
+ */
+export const today = (): CalendarDate => toCalendarDate(new Date());
+
+export const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Add calendar days (not 24h blocks, so DST changes can't shift the day)
+ */
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Whole calendar days from `from` to `to` (DST-safe)
+ */
+export const differenceInDays = (from: Date, to: Date): number => {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / MS_PER_DAY);
+};
@@ -0,0 +1,75 @@
+/**
+ * Currency Helpers
+ *
+ * Lookup of ISO-4217 metadata and locale-aware formatting through
+ * Intl.NumberFormat (symbol placement, digit grouping and decimals follow
+ * the device locale and the currency's minor units).
+ */
+
+import { CURRENCIES, Currency, CurrencyInfo } from '@/types/currency.types';
+
+const CURRENCY_BY_CODE = new Map<string, CurrencyInfo>(
+  CURRENCIES.map(currency => [currency.code, currency])
+);
+
+// Formatters are expensive to build and amounts are formatted on every render
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const isCurrency = (code: string): code is Currency => CURRENCY_BY_CODE.has(code);
+
+export const getCurrencyInfo = (code: Currency): CurrencyInfo | undefined =>
+  CURRENCY_BY_CODE.get(code);
+
+/**
+ * Decimal places the currency is counted in (2 when unknown)
+ */
+export const getMinorUnits = (code: Currency): number =>
+  CURRENCY_BY_CODE.get(code)?.minorUnits ?? 2;
+
+/**
+ * Locale the device formats numbers in, e.g. 'en-IN'
+ */
+export const getDeviceLocale = (): string => {
+  try {
+    return Intl.NumberFormat().resolvedOptions().locale;
+  } catch {
+    return 'en-US';
+  }
+};
+
+/**
+ * Format an amount in a currency, e.g. ₹1,00,000.00 (en-IN) or ¥1,200 (JPY)
+ */
+export const formatMoney = (amount: number, currency: Currency, locale: string = getDeviceLocale()): string => {
+  const minorUnits = getMinorUnits(currency);
+  const key = `${locale}_${currency}`;
+
+  try {
+    let formatter = formatters.get(key);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: minorUnits,
+        maximumFractionDigits: minorUnits,
+      });
+      formatters.set(key, formatter);
+    }
+    return formatter.format(amount);
+  } catch {
+    // Engines without currency support in Intl
+    return `${currency} ${amount.toFixed(minorUnits)}`;
+  }
+};
+
+/**
+ * Currencies whose code or name contains the query, exact code match first
+ */
+export const searchCurrencies = (query: string): CurrencyInfo[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [...CURRENCIES];
+
+  return CURRENCIES.filter(
+    currency => currency.code.toLowerCase().includes(q) || currency.name.toLowerCase().includes(q)
+  ).sort((a, b) => Number(b.code.toLowerCase() === q) - Number(a.code.toLowerCase() === q));
+};
@@ -0,0 +1,130 @@
+/**
+ * Money Helpers
+ *
+ * Arithmetic on Money (integer minor units + currency). Adding and
+ * subtracting is exact; anything that multiplies or divides rounds once, with
+ * an explicit rounding mode, and splitting an amount goes through allocate()
+ * so the parts always add back up to the whole.
+ */
+
+import { Currency } from '@/types/currency.types';
+import { Money, RoundingMode } from '@/types/money.types';
+import { getMinorUnits } from './currency';
+
+const scale = (currency: Currency): number => 10 ** getMinorUnits(currency);
+
+/**
+ * Round a number of minor units to a whole one. Float noise is dropped first
+ * so 129998.99999999999 (1299.99 * 100) counts as 129999.
+ */
+export const roundMinor = (value: number, mode: RoundingMode = 'half-up'): number =>
+  // -0 would format as "-$0.00"
+  roundWhole(Number(value.toPrecision(15)), mode) || 0;
+
+const roundWhole = (clean: number, mode: RoundingMode): number => {
+  switch (mode) {
+    case 'floor':
+      return Math.floor(clean);
+    case 'ceil':
+      return Math.ceil(clean);
+    case 'half-even': {
+      const floor = Math.floor(clean);
+      const diff = clean - floor;
+      if (diff > 0.5) return floor + 1;
+      if (diff < 0.5) return floor;
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+    default:
+      return Math.sign(clean) * Math.round(Math.abs(clean));
+  }
+};
+
+export const money = (minor: number, currency: Currency): Money => ({
+  minor: roundMinor(minor),
+  currency,
+});
+
+export const zero = (currency: Currency): Money => ({ minor: 0, currency });
+
+/**
+ * Money from a decimal amount, e.g. fromMajor(12.5, 'USD') is 1250 cents
+ */
+export const fromMajor = (amount: number, currency: Currency, mode: RoundingMode = 'half-up'): Money => ({
+  minor: roundMinor(amount * scale(currency), mode),
+  currency,
+});
+
+/**
+ * Decimal amount for display and input fields, e.g. 12.5
+ */
+export const toMajor = (value: Money): number => value.minor / scale(value.currency);
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+};
+
+export const add = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+};
+
+export const sum = (values: Money[], currency: Currency): Money =>
+  values.reduce(add, zero(currency));
+
+export const negate = (value: Money): Money => ({ minor: -value.minor || 0, currency: value.currency });
+
+/**
+ * Multiply by a factor (e.g. a tax rate or 1/12), rounding the result once
+ */
+export const multiply = (value: Money, factor: number, mode: RoundingMode = 'half-up'): Money => ({
+  minor: roundMinor(value.minor * factor, mode),
+  currency: value.currency,
+});
+
+export const compare = (a: Money, b: Money): number => {
+  assertSameCurrency(a, b);
+  return a.minor - b.minor;
+};
+
+export const maxMoney = (a: Money, b: Money): Money => (compare(a, b) >= 0 ? a : b);
+
+export const minMoney = (a: Money, b: Money): Money => (compare(a, b) <= 0 ? a : b);
+
+export const isZero = (value: Money): boolean => value.minor === 0;
+
+export const isNegative = (value: Money): boolean => value.minor < 0;
+
+/**
+ * Split an amount by ratios without losing or inventing a minor unit: each
+ * part is rounded down, then the leftover units go to the parts with the
+ * largest remainders (earlier parts win ties). Nothing is allocated when
+ * every ratio is 0.
+ */
+export const allocate = (value: Money, ratios: number[]): Money[] => {
+  const totalRatio = ratios.reduce((total, ratio) => total + Math.max(ratio, 0), 0);
+  if (totalRatio <= 0) return ratios.map(() => zero(value.currency));
+
+  const sign = value.minor < 0 ? -1 : 1;
+  const units = Math.abs(value.minor);
+  const exact = ratios.map(ratio => (units * Math.max(ratio, 0)) / totalRatio);
+  const parts = exact.map(share => Math.floor(Number(share.toPrecision(15))));
+
+  let leftover = units - parts.reduce((total, part) => total + part, 0);
+  exact
+    .map((share, index) => ({ index, remainder: share - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover <= 0) return;
+      parts[index] += 1;
+      leftover -= 1;
+    });
+
+  return parts.map(part => ({ minor: sign * part || 0, currency: value.currency }));
+};